@@ -3,10 +3,15 @@
 /**
  * Second Brain Setup Script
  *
- * Run: npm run setup (or node scripts/setup.mjs)
+ * Run: npm run setup (or node scripts/setup.mjs [--vault <name>])
+ *
+ * The target directory follows the extension's config (src/config.ts):
+ * --vault, then SECOND_BRAIN_VAULT, looked up in ~/.pi/agent/second-brain.json;
+ * then SECOND_BRAIN_DIR; then that file's defaultVault, then ~/second-brain.
+ * Relative vault paths are relative to the home directory.
  *
  * This script:
- * 1. Creates the ~/second-brain/ PARA directory structure
+ * 1. Creates the PARA directory structure
  * 2. Initializes git
  * 3. Creates note templates
  * 4. Checks for qmd and offers to install it
@@ -16,11 +21,60 @@
 
 import { execSync } from "node:child_process";
 import { existsSync, mkdirSync, writeFileSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import { createInterface } from "node:readline";
 
 const HOME = process.env.HOME || process.env.USERPROFILE || "~";
-const BRAIN_DIR = join(HOME, "second-brain");
+const SETTINGS_PATH = join(HOME, ".pi", "agent", "second-brain.json");
+
+/** Same as expandPath in src/config.ts: relative paths are resolved against HOME */
+function expandPath(path) {
+	if (path === "~") return HOME;
+	if (path.startsWith("~/")) return join(HOME, path.slice(2));
+	return resolve(HOME, path);
+}
+
+function resolveVault() {
+	let settings = {};
+	if (existsSync(SETTINGS_PATH)) {
+		try {
+			settings = JSON.parse(readFileSync(SETTINGS_PATH, "utf-8"));
+		} catch {
+			// Ignore malformed settings; fall back to defaults
+		}
+	}
+
+	// Same precedence as resolveVault in src/config.ts
+	const flagIdx = process.argv.indexOf("--vault");
+	const chosen = (flagIdx >= 0 ? process.argv[flagIdx + 1] : undefined) || process.env.SECOND_BRAIN_VAULT;
+	const pinned = !chosen && process.env.SECOND_BRAIN_DIR;
+	const name = chosen || (pinned ? "default" : settings.defaultVault ?? "default");
+	const vault = settings.vaults?.[name];
+	const collection = vault?.collection ?? (name === "default" ? "second-brain" : `second-brain-${name}`);
+
+	const base = { name, collection, timezone: settings.timezone, dayStartHour: settings.dayStartHour ?? 0 };
+	if (pinned) return { ...base, dir: expandPath(process.env.SECOND_BRAIN_DIR) };
+	if (vault?.path !== undefined) return { ...base, dir: expandPath(vault.path) };
+	if (name === "default") return { ...base, dir: expandPath(process.env.SECOND_BRAIN_DIR ?? join(HOME, "second-brain")) };
+	return { ...base, dir: join(HOME, `second-brain-${name}`) };
+}
+
+/** Today's YYYY-MM-DD in the configured timezone, honoring the day-start hour (same rules as src/dates.ts) */
+function logicalToday() {
+	const shifted = new Date(Date.now() - VAULT.dayStartHour * 3_600_000);
+	let timeZone = VAULT.timezone;
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+	} catch {
+		timeZone = undefined;
+	}
+	const fmt = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" });
+	return fmt.format(shifted);
+}
+
+const VAULT = resolveVault();
+const BRAIN_DIR = VAULT.dir;
+const COLLECTION = VAULT.collection;
 
 const COLORS = {
 	reset: "\x1b[0m",
@@ -175,6 +229,7 @@ async function main() {
 	log(c("bold", "  🧠 Second Brain Setup"));
 	log(c("dim", "  ─────────────────────────────────────"));
 	log(c("dim", "  PARA knowledge management for pi"));
+	log(c("dim", `  Vault: ${VAULT.name}`));
 	log("");
 
 	// Step 1: Create directory structure
@@ -224,12 +279,12 @@ async function main() {
 	// Step 3: Create first daily note
 	step("Creating today's daily note");
 
-	const now = new Date();
-	const dateStr = now.toISOString().split("T")[0];
+	const dateStr = logicalToday();
+	const day = new Date(`${dateStr}T00:00:00Z`);
 	const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 	const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
-	const dayName = days[now.getDay()];
-	const fullDate = `${months[now.getMonth()]} ${now.getDate()}, ${now.getFullYear()}`;
+	const dayName = days[day.getUTCDay()];
+	const fullDate = `${months[day.getUTCMonth()]} ${day.getUTCDate()}, ${day.getUTCFullYear()}`;
 
 	const dailyPath = join(BRAIN_DIR, "daily", `${dateStr}.md`);
 	if (!existsSync(dailyPath)) {
@@ -265,13 +320,13 @@ async function main() {
 
 		// Check if collection exists
 		const status = run("qmd status", { silent: true }) || "";
-		if (status.includes("second-brain")) {
-			info("qmd collection 'second-brain' already registered");
+		if (new RegExp(`(^|[^\\w-])${COLLECTION}([^\\w-]|$)`, "m").test(status)) {
+			info(`qmd collection '${COLLECTION}' already registered`);
 		} else {
 			info("Registering collection with qmd...");
-			run(`qmd collection add "${BRAIN_DIR}" --name second-brain`);
-			run(`qmd context add "qmd://second-brain" "Personal knowledge base using PARA method. Contains projects, areas, resources, archived items, and daily notes."`);
-			ok("qmd collection 'second-brain' registered");
+			run(`qmd collection add "${BRAIN_DIR}" --name ${COLLECTION}`);
+			run(`qmd context add "qmd://${COLLECTION}" "Personal knowledge base using PARA method. Contains projects, areas, resources, archived items, and daily notes."`);
+			ok(`qmd collection '${COLLECTION}' registered`);
 
 			const doEmbed = await ask("Generate embeddings for semantic search? (y/n)");
 			if (doEmbed === "y" || doEmbed === "yes") {
@@ -286,13 +341,13 @@ async function main() {
 		warn("qmd is not installed");
 		log("");
 		info("qmd provides fast full-text and semantic search for your knowledge base.");
-		info("The extension still works without it, but search tools won't return results.");
+		info("The extension still works without it, using a slower built-in keyword index for search.");
 		log("");
 		info("Install with:");
 		log(`    ${c("cyan", "npm install -g @tobilu/qmd")}`);
 		log("");
 		info("Then run setup again, or manually register:");
-		log(`    ${c("cyan", `qmd collection add "${BRAIN_DIR}" --name second-brain`)}`);
+		log(`    ${c("cyan", `qmd collection add "${BRAIN_DIR}" --name ${COLLECTION}`)}`);
 		log(`    ${c("cyan", "qmd embed")}`);
 	}
 
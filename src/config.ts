@@ -0,0 +1,229 @@
+/**
+ * Configuration
+ *
+ * Resolves where the knowledge base lives and which named vault is active.
+ * Sources, lowest to highest precedence:
+ *   ~/.pi/agent/second-brain.json    → global settings (vaults, default vault)
+ *   <project>/.pi/second-brain.json  → per-project overrides (nearest ancestor wins)
+ *   SECOND_BRAIN_DIR / SECOND_BRAIN_VAULT environment variables
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
+import type { SearchMode } from "./search.js";
+
+const HOME = process.env.HOME ?? process.env.USERPROFILE ?? "~";
+
+export const SETTINGS_PATH = join(HOME, ".pi", "agent", "second-brain.json");
+/** Extraction failures and other background errors are appended here */
+export const LOG_PATH = join(HOME, ".pi", "agent", "second-brain.log");
+/** Undo logs for /review, one per vault, kept out of the vault's git history */
+export const UNDO_DIR = join(HOME, ".pi", "agent", "second-brain-undo");
+export const PROJECT_SETTINGS_FILE = join(".pi", "second-brain.json");
+export const DEFAULT_VAULT = "default";
+export const DEFAULT_BRAIN_DIR = join(HOME, "second-brain");
+
+export interface VaultConfig {
+	/** Root directory of the vault (`~` is expanded) */
+	path: string;
+	/** Directories whose subtrees select this vault automatically */
+	match?: string[];
+	/** qmd collection name (defaults to "second-brain" or "second-brain-<name>") */
+	collection?: string;
+}
+
+export interface ExtractionConfig {
+	/** Model for deep extraction as "provider/model-id"; defaults to the session model */
+	model?: string;
+	/** Max output tokens per extraction request */
+	maxTokens?: number;
+	/** Approximate conversation tokens sent per request; longer sessions are split */
+	chunkTokens?: number;
+	/** Total tokens (input + output) deep extraction may spend in one session */
+	sessionBudget?: number;
+}
+
+export const EXTRACTION_DEFAULTS: Required<Omit<ExtractionConfig, "model">> = {
+	maxTokens: 4096,
+	chunkTokens: 24000,
+	sessionBudget: 200000,
+};
+
+export interface ContextConfig {
+	/** Approximate tokens of note content injected before each prompt */
+	tokenBudget?: number;
+	/** Minimum search score (0-1) a hit needs to be injected */
+	minScore?: number;
+	/** Search hits considered before ranking */
+	candidates?: number;
+	/** How notes are looked up: keyword, semantic or hybrid (default keyword) */
+	mode?: SearchMode;
+}
+
+export const CONTEXT_DEFAULTS: Required<ContextConfig> = {
+	tokenBudget: 1500,
+	minScore: 0.3,
+	candidates: 10,
+	mode: "keyword",
+};
+
+export interface SecondBrainConfig {
+	/** Vault to use when no `match` rule applies */
+	defaultVault?: string;
+	/** Vault pinned for this project (only meaningful in project settings) */
+	vault?: string;
+	/** Named vaults */
+	vaults: Record<string, VaultConfig>;
+	/** Deep extraction model and limits */
+	extraction?: ExtractionConfig;
+	/** Context injection budget and relevance threshold */
+	context?: ContextConfig;
+	/** IANA timezone for dates and daily notes (defaults to the system timezone) */
+	timezone?: string;
+	/** Hour (0-23) at which a new day starts; e.g. 4 keeps late-night work on the previous day */
+	dayStartHour?: number;
+	/** Days a priority can be carried over before it's flagged (default 3) */
+	carryWarningDays?: number;
+	/** Days without activity after which /review suggests archiving a project (default 30) */
+	staleProjectDays?: number;
+	/** Have /week write a model-generated narrative without being asked (default false) */
+	rollupNarrative?: boolean;
+}
+
+export const DEFAULT_CARRY_WARNING_DAYS = 3;
+export const DEFAULT_STALE_PROJECT_DAYS = 30;
+
+export interface ResolvedVault {
+	name: string;
+	path: string;
+	collection: string;
+	/** Where the choice came from, for display in /brain vault */
+	source: "env" | "project" | "match" | "default" | "override";
+}
+
+/** Expand a leading `~` and resolve relative to `base` */
+export function expandPath(path: string, base: string = HOME): string {
+	if (path === "~") return HOME;
+	if (path.startsWith("~/")) return join(HOME, path.slice(2));
+	return resolve(base, path);
+}
+
+function readJson(path: string): Partial<SecondBrainConfig> | undefined {
+	if (!existsSync(path)) return undefined;
+	try {
+		return JSON.parse(readFileSync(path, "utf-8"));
+	} catch {
+		return undefined;
+	}
+}
+
+/** Find the nearest `.pi/second-brain.json` at or above `cwd` */
+export function findProjectSettings(cwd: string): string | undefined {
+	let dir = resolve(cwd);
+	while (true) {
+		const candidate = join(dir, PROJECT_SETTINGS_FILE);
+		if (candidate !== SETTINGS_PATH && existsSync(candidate)) return candidate;
+		const parent = dirname(dir);
+		if (parent === dir) return undefined;
+		dir = parent;
+	}
+}
+
+/** Load global settings merged with the nearest project override */
+export function loadConfig(cwd: string): SecondBrainConfig {
+	const global = readJson(SETTINGS_PATH) ?? {};
+	const projectPath = findProjectSettings(cwd);
+	const project = projectPath ? readJson(projectPath) ?? {} : {};
+
+	// Vault paths in project settings are relative to the project root
+	const projectVaults: Record<string, VaultConfig> = {};
+	if (projectPath) {
+		const projectRoot = dirname(dirname(projectPath));
+		for (const [name, vault] of Object.entries(project.vaults ?? {})) {
+			projectVaults[name] = { ...vault, path: expandPath(vault.path, projectRoot) };
+		}
+	}
+
+	return {
+		...global,
+		...project,
+		vaults: { ...global.vaults, ...projectVaults },
+		extraction: { ...global.extraction, ...project.extraction },
+		context: { ...global.context, ...project.context },
+	};
+}
+
+/** Extraction settings with defaults filled in */
+export function extractionSettings(config: SecondBrainConfig): ExtractionConfig & typeof EXTRACTION_DEFAULTS {
+	return { ...EXTRACTION_DEFAULTS, ...config.extraction };
+}
+
+/** Context injection settings with defaults filled in */
+export function contextSettings(config: SecondBrainConfig): Required<ContextConfig> {
+	return { ...CONTEXT_DEFAULTS, ...config.context };
+}
+
+function collectionFor(name: string, vault?: VaultConfig): string {
+	return vault?.collection ?? (name === DEFAULT_VAULT ? "second-brain" : `second-brain-${name}`);
+}
+
+function toResolved(name: string, config: SecondBrainConfig, source: ResolvedVault["source"]): ResolvedVault {
+	const vault = config.vaults[name];
+	const path =
+		vault?.path !== undefined
+			? expandPath(vault.path)
+			: name === DEFAULT_VAULT
+				? expandPath(process.env.SECOND_BRAIN_DIR ?? DEFAULT_BRAIN_DIR)
+				: join(HOME, `second-brain-${name}`);
+	return { name, path, collection: collectionFor(name, vault), source };
+}
+
+/** Pick the vault whose `match` directory is the longest ancestor of cwd */
+function matchVault(cwd: string, config: SecondBrainConfig): string | undefined {
+	const target = resolve(cwd);
+	let best: { name: string; length: number } | undefined;
+	for (const [name, vault] of Object.entries(config.vaults)) {
+		for (const pattern of vault.match ?? []) {
+			const dir = expandPath(pattern);
+			if (target === dir || target.startsWith(dir.endsWith(sep) ? dir : dir + sep)) {
+				if (!best || dir.length > best.length) best = { name, length: dir.length };
+			}
+		}
+	}
+	return best?.name;
+}
+
+/**
+ * Resolve the active vault for a working directory.
+ * `override` is a vault name chosen explicitly (e.g. via /brain vault).
+ */
+export function resolveVault(cwd: string, override?: string, config: SecondBrainConfig = loadConfig(cwd)): ResolvedVault {
+	if (override) return toResolved(override, config, "override");
+
+	const envVault = process.env.SECOND_BRAIN_VAULT;
+	if (envVault) return toResolved(envVault, config, "env");
+
+	// SECOND_BRAIN_DIR pins the location outright
+	if (process.env.SECOND_BRAIN_DIR) {
+		return {
+			name: DEFAULT_VAULT,
+			path: expandPath(process.env.SECOND_BRAIN_DIR),
+			collection: collectionFor(DEFAULT_VAULT, config.vaults[DEFAULT_VAULT]),
+			source: "env",
+		};
+	}
+
+	if (config.vault) return toResolved(config.vault, config, "project");
+
+	const matched = matchVault(cwd, config);
+	if (matched) return toResolved(matched, config, "match");
+
+	return toResolved(config.defaultVault ?? DEFAULT_VAULT, config, "default");
+}
+
+/** Names of all configured vaults, including the fallback vault */
+export function listVaults(config: SecondBrainConfig): string[] {
+	const names = new Set(Object.keys(config.vaults));
+	names.add(config.defaultVault ?? DEFAULT_VAULT);
+	return [...names];
+}
@@ -0,0 +1,337 @@
+/**
+ * Context Retrieval
+ *
+ * Chooses what to inject before a prompt. Search hits below a score
+ * threshold are dropped, notes belonging to the active project and recent
+ * daily notes are boosted, and the best-ranked notes contribute whole
+ * sections (those mentioning the query first) until a token budget is spent.
+ *
+ * Context is delivered as a `second-brain-context` custom message. Notes
+ * already injected on the branch are not sent again; instead the new message
+ * lists them as reused, which keeps their original message from being pruned.
+ * Notes inserted by hand from the note viewer (`second-brain-note` messages)
+ * count as injected too.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { basename, dirname, relative } from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { ContextConfig } from "./config.js";
+import { daysBetween, today } from "./dates.js";
+import { estimateTokens } from "./extractor.js";
+import { inProject } from "./filters.js";
+import { parseNote } from "./frontmatter.js";
+import { getBrainDir, getDailyDir } from "./para.js";
+import { buildQuery } from "./query.js";
+import { resultPath, searchBrain, tokenize } from "./search.js";
+import type { SearchResult } from "./ui.js";
+
+export const CONTEXT_MESSAGE = "second-brain-context";
+/** A whole note inserted into the conversation from the note viewer */
+export const NOTE_MESSAGE = "second-brain-note";
+/** Session entry recording /brain context on|off */
+export const CONTEXT_TOGGLE_ENTRY = "second-brain-context-toggle";
+
+/** Score multiplier for notes that belong to the active project */
+const PROJECT_BOOST = 1.5;
+/** Score multiplier for daily notes from the last RECENT_DAYS days */
+const RECENT_DAILY_BOOST = 1.25;
+const RECENT_DAYS = 7;
+/** Remaining budget below which no further sections are tried */
+const MIN_SECTION_TOKENS = 20;
+
+export interface RankedNote {
+	path: string;
+	title: string;
+	/** Search score (0-1) after boosts */
+	score: number;
+	content: string;
+}
+
+export interface NoteSection {
+	/** Heading text; undefined for text before the first `##` heading */
+	heading?: string;
+	text: string;
+}
+
+export interface InjectedNote {
+	path: string;
+	title: string;
+	score: number;
+	sections: NoteSection[];
+}
+
+/** Details stored with a note message */
+export interface NoteMessageDetails {
+	path: string;
+	title: string;
+}
+
+/** Details stored with a context message */
+export interface ContextDetails {
+	project?: string;
+	notes: Array<{ path: string; title: string; score: number; sections: string[] }>;
+	/** Relevant notes skipped because an earlier context message already holds them */
+	reused: string[];
+}
+
+/** Search score as a fraction: "85%" → 0.85; unknown scores count as 0 */
+export function parseScore(score: string): number {
+	const value = Number.parseFloat(score);
+	if (Number.isNaN(value)) return 0;
+	return score.trim().endsWith("%") || value > 1 ? value / 100 : value;
+}
+
+function isRecentDaily(path: string, day: string): boolean {
+	if (dirname(path) !== getDailyDir()) return false;
+	const date = basename(path, ".md");
+	return /^\d{4}-\d{2}-\d{2}$/.test(date) && daysBetween(date, day) <= RECENT_DAYS;
+}
+
+/**
+ * Turn search hits into ranked notes: drop hits below `minScore` and those
+ * whose file is gone, merge duplicates, then apply the project and recency
+ * boosts.
+ */
+export function rankResults(
+	results: SearchResult[],
+	options: { minScore: number; project?: string; day?: string }
+): RankedNote[] {
+	const day = options.day ?? today();
+	const ranked = new Map<string, RankedNote>();
+
+	for (const r of results) {
+		const base = parseScore(r.score);
+		if (base < options.minScore) continue;
+		const path = resultPath(r.path);
+		if (!existsSync(path)) continue;
+		if ((ranked.get(path)?.score ?? -1) >= base) continue;
+
+		const content = readFileSync(path, "utf-8");
+		let score = base;
+		if (options.project && inProject(path, parseNote(content).data, options.project)) score *= PROJECT_BOOST;
+		if (isRecentDaily(path, day)) score *= RECENT_DAILY_BOOST;
+		ranked.set(path, { path, title: r.title || basename(path, ".md"), score, content });
+	}
+
+	return [...ranked.values()].sort((a, b) => b.score - a.score);
+}
+
+/** A note's body split at `##` headings; the H1 title and empty sections are left out */
+export function noteSections(content: string): NoteSection[] {
+	const sections: NoteSection[] = [];
+	let current: NoteSection = { text: "" };
+	let inFence = false;
+	const flush = () => {
+		const text = current.text.replace(/<!--[\s\S]*?-->/g, "").trim();
+		if (text) sections.push({ ...current, text });
+	};
+
+	for (const line of parseNote(content).body.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+		const heading = inFence ? undefined : line.match(/^##\s+(.+?)\s*#*\s*$/)?.[1];
+		if (heading) {
+			flush();
+			current = { heading, text: "" };
+		} else if (inFence || !/^#\s/.test(line)) {
+			current.text += `${line}\n`;
+		}
+	}
+	flush();
+	return sections;
+}
+
+function sectionTokens(section: NoteSection): number {
+	return estimateTokens(section.heading ? `## ${section.heading}\n${section.text}` : section.text);
+}
+
+/**
+ * Fill the token budget from ranked notes. Each note offers the sections
+ * that mention query terms (most mentions first), or its opening section if
+ * none does, as a semantic match would. Sections that don't fit are skipped
+ * in favour of smaller ones; nothing is truncated.
+ */
+export function selectContext(query: string, notes: RankedNote[], tokenBudget: number): InjectedNote[] {
+	const terms = new Set(tokenize(query));
+	const selected: InjectedNote[] = [];
+	let remaining = tokenBudget;
+
+	for (const note of notes) {
+		if (remaining < MIN_SECTION_TOKENS) break;
+
+		const sections = noteSections(note.content);
+		const matches = sections
+			.map((section, index) => ({
+				section,
+				index,
+				hits: tokenize(`${section.heading ?? ""} ${section.text}`).filter((t) => terms.has(t)).length,
+			}))
+			.filter((s) => s.hits > 0)
+			.sort((a, b) => b.hits - a.hits);
+		const candidates = matches.length > 0 ? matches : sections.slice(0, 1).map((section) => ({ section, index: 0 }));
+
+		const chosen: Array<{ section: NoteSection; index: number }> = [];
+		for (const candidate of candidates) {
+			const tokens = sectionTokens(candidate.section);
+			if (tokens > remaining) continue;
+			chosen.push(candidate);
+			remaining -= tokens;
+		}
+		if (chosen.length === 0) continue;
+
+		selected.push({
+			path: note.path,
+			title: note.title,
+			score: note.score,
+			sections: chosen.sort((a, b) => a.index - b.index).map((c) => c.section),
+		});
+	}
+
+	return selected;
+}
+
+export interface ContextInjection {
+	/** The context block as the model sees it */
+	text: string;
+	details: ContextDetails;
+}
+
+/**
+ * Search, rank and select the context to inject for a prompt. Notes in `skip`
+ * are not sent again but reported as reused; a message that only reuses notes
+ * still matters, since it keeps their earlier message from being pruned.
+ * Undefined when nothing is relevant.
+ */
+export async function retrieveContext(
+	pi: ExtensionAPI,
+	prompt: string,
+	options: Required<ContextConfig> & { collection?: string; project?: string; skip?: Set<string> }
+): Promise<ContextInjection | undefined> {
+	// Search with the prompt's key terms, not the raw text with its code and filler
+	const query = buildQuery(prompt);
+	const { results } = await searchBrain(pi, query, {
+		maxResults: options.candidates,
+		collection: options.collection,
+		mode: options.mode,
+	});
+	const ranked = rankResults(results, options);
+	const skip = options.skip ?? new Set<string>();
+	const notes = selectContext(
+		query.keywords,
+		ranked.filter((n) => !skip.has(n.path)),
+		options.tokenBudget
+	);
+	const reused = ranked.filter((n) => skip.has(n.path));
+	if (notes.length === 0 && reused.length === 0) return undefined;
+
+	return {
+		text: formatContext(notes, options.project, reused),
+		details: {
+			...(options.project ? { project: options.project } : {}),
+			notes: notes.map((n) => ({
+				path: n.path,
+				title: n.title,
+				score: n.score,
+				sections: n.sections.map((s) => s.heading ?? ""),
+			})),
+			reused: reused.map((n) => n.path),
+		},
+	};
+}
+
+/** The context block the model sees; reused notes are only named, their text is in earlier context */
+export function formatContext(
+	notes: InjectedNote[],
+	project?: string,
+	reused: Array<{ path: string; title: string }> = []
+): string {
+	const lines = ["[Second Brain — Relevant Knowledge]"];
+	if (project) lines.push(`Active project: ${project}`);
+	for (const note of notes) {
+		const score = Math.round(Math.min(note.score, 1) * 100);
+		lines.push("", `### ${note.title} (${score}%) — ${relative(getBrainDir(), note.path)}`);
+		for (const section of note.sections) {
+			if (section.heading) lines.push(`#### ${section.heading}`);
+			lines.push(section.text);
+		}
+	}
+	if (reused.length > 0) {
+		lines.push("", "Also relevant, from earlier Second Brain context:");
+		for (const note of reused) lines.push(`- ${note.title} — ${relative(getBrainDir(), note.path)}`);
+	}
+	lines.push("[End Second Brain Context]");
+	return lines.join("\n");
+}
+
+// ─── Session State ─────────────────────────────────────────────────────
+
+interface EntryLike {
+	type: string;
+	id?: string;
+	/** On compaction entries: where the messages the model still sees begin */
+	firstKeptEntryId?: string;
+	customType?: string;
+	details?: unknown;
+	data?: unknown;
+}
+
+/** Entries the model still sees: everything, or what the latest compaction kept */
+function uncompacted<E extends EntryLike>(entries: E[]): E[] {
+	const compaction = entries.map((e) => e.type).lastIndexOf("compaction");
+	if (compaction < 0) return entries;
+	const kept = entries.findIndex((e) => e.id === entries[compaction].firstKeptEntryId);
+	return entries.slice(kept >= 0 ? kept : compaction);
+}
+
+/**
+ * Notes already injected on a branch, by context messages or inserted from
+ * the viewer. Messages summarized away by compaction don't count.
+ */
+export function injectedPaths(entries: EntryLike[]): Set<string> {
+	const paths = new Set<string>();
+	for (const entry of uncompacted(entries)) {
+		if (entry.type !== "custom_message") continue;
+		if (entry.customType === CONTEXT_MESSAGE) {
+			for (const note of (entry.details as ContextDetails | undefined)?.notes ?? []) paths.add(note.path);
+		} else if (entry.customType === NOTE_MESSAGE) {
+			const path = (entry.details as NoteMessageDetails | undefined)?.path;
+			if (path) paths.add(path);
+		}
+	}
+	return paths;
+}
+
+/** A note as the model sees it when inserted whole */
+export function formatNoteMessage(path: string, title: string, content: string): string {
+	const body = parseNote(content).body.replace(/<!--[\s\S]*?-->/g, "").replace(/\n{3,}/g, "\n\n").trim();
+	return `[Second Brain — Note: ${title} — ${relative(getBrainDir(), path)}]\n${body}\n[End Second Brain Note]`;
+}
+
+/** Whether context injection is on for a branch (the latest /brain context toggle wins) */
+export function contextEnabled(entries: EntryLike[]): boolean {
+	let enabled = true;
+	for (const entry of entries) {
+		if (entry.type === "custom" && entry.customType === CONTEXT_TOGGLE_ENTRY) {
+			enabled = (entry.data as { enabled?: boolean } | undefined)?.enabled !== false;
+		}
+	}
+	return enabled;
+}
+
+/**
+ * Drop context messages the model no longer needs: all but the latest,
+ * except those holding notes the latest one reused. With `keepNone`
+ * (context turned off) every context message is dropped.
+ */
+export function pruneContextMessages<M>(messages: M[], keepNone = false): M[] {
+	const isContext = (m: M) => (m as { customType?: string }).customType === CONTEXT_MESSAGE;
+	const details = (m: M) => (m as { details?: ContextDetails }).details;
+	if (keepNone) return messages.filter((m) => !isContext(m));
+
+	const latest = messages.filter(isContext).at(-1);
+	if (!latest) return messages;
+	const reused = new Set(details(latest)?.reused ?? []);
+	return messages.filter(
+		(m) => !isContext(m) || m === latest || (details(m)?.notes ?? []).some((n) => reused.has(n.path))
+	);
+}
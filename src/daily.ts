@@ -2,216 +2,190 @@
  * Daily Note Management
  *
  * Auto-creates daily notes, appends log entries, rolls up priorities.
+ * All edits go through the section model in sections.ts; missing sections
+ * are created in the order they appear in the daily template.
  */
 
-import { existsSync, readFileSync, writeFileSync, readdirSync } from "node:fs";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
 import { join } from "node:path";
-import { DAILY_DIR, TEMPLATES_DIR, ensureDirs } from "./para.js";
-
-const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-const MONTHS = [
-	"January",
-	"February",
-	"March",
-	"April",
-	"May",
-	"June",
-	"July",
-	"August",
-	"September",
-	"October",
-	"November",
-	"December",
-];
-
-function formatDate(d: Date): string {
-	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
-}
-
-function fullDate(d: Date): string {
-	return `${MONTHS[d.getMonth()]} ${d.getDate()}, ${d.getFullYear()}`;
-}
-
-function dayName(d: Date): string {
-	return DAYS[d.getDay()];
+import { ensureDirs, getDailyDir, getTemplatesDir, writeNote } from "./para.js";
+import { buildNote } from "./frontmatter.js";
+import { clockTime, daysBetween, longDate, today, weekdayName } from "./dates.js";
+import {
+	insertIntoSection,
+	listSections,
+	readSection,
+	replaceSectionContent,
+	type InsertPosition,
+} from "./sections.js";
+
+/** Get the path for a daily note (defaults to today's logical day) */
+export function dailyPath(day: string = today()): string {
+	return join(getDailyDir(), `${day}.md`);
 }
 
-/** Get the path for a daily note */
-export function dailyPath(date?: Date): string {
-	const d = date ?? new Date();
-	return join(DAILY_DIR, `${formatDate(d)}.md`);
-}
-
-/** Ensure today's daily note exists. Creates from template if not. */
-export function ensureDailyNote(date?: Date): string {
+/** Ensure a day's daily note exists (today by default). Creates from template if not. */
+export function ensureDailyNote(day: string = today()): string {
 	ensureDirs();
-	const d = date ?? new Date();
-	const path = dailyPath(d);
+	const path = dailyPath(day);
 
 	if (existsSync(path)) return path;
 
 	// Load template
-	const templatePath = join(TEMPLATES_DIR, "daily.md");
+	const templatePath = join(getTemplatesDir(), "daily.md");
 	let content: string;
 	if (existsSync(templatePath)) {
 		content = readFileSync(templatePath, "utf-8")
-			.replace(/\{\{DATE\}\}/g, formatDate(d))
-			.replace(/\{\{DAY_NAME\}\}/g, dayName(d))
-			.replace(/\{\{FULL_DATE\}\}/g, fullDate(d));
+			.replace(/\{\{DATE\}\}/g, day)
+			.replace(/\{\{DAY_NAME\}\}/g, weekdayName(day))
+			.replace(/\{\{FULL_DATE\}\}/g, longDate(day));
 	} else {
-		content = `---\ndate: ${formatDate(d)}\n---\n# ${dayName(d)}, ${fullDate(d)}\n\n## Priorities\n- [ ] \n\n## Log\n\n## Notes\n\n## Decisions\n\n## Learned\n`;
+		content = buildNote(
+			{ date: day },
+			`# ${weekdayName(day)}, ${longDate(day)}\n\n## Priorities\n- [ ] \n\n## Log\n\n## Notes\n\n## Decisions\n\n## Learned\n`
+		);
 	}
 
-	// Roll up incomplete priorities from yesterday
-	const yesterday = new Date(d);
-	yesterday.setDate(yesterday.getDate() - 1);
-	const yesterdayPath = dailyPath(yesterday);
-	if (existsSync(yesterdayPath)) {
-		const yesterdayContent = readFileSync(yesterdayPath, "utf-8");
-		const incomplete = extractIncompletePriorities(yesterdayContent);
-		if (incomplete.length > 0) {
-			const prioritiesSection = incomplete.map((p) => `- [ ] ${p} *(rolled over)*`).join("\n");
-			content = content.replace("- [ ] \n", prioritiesSection + "\n- [ ] \n");
+	// Carry open priorities over from the most recent earlier note, however old
+	const previous = previousDailyDay(day);
+	if (previous) {
+		const carried = getPrioritiesFrom(readFileSync(dailyPath(previous), "utf-8"))
+			.filter((p) => !p.done)
+			.map((p) => formatPriority({ ...p, since: p.since ?? previous }));
+		if (carried.length > 0) {
+			content = insertIntoSection(content, "Priorities", carried.join("\n"), "prepend", {
+				order: dailySectionOrder(),
+			});
 		}
 	}
 
-	writeFileSync(path, content, "utf-8");
+	writeNote(path, content);
 	return path;
 }
 
-/** Extract incomplete priorities from a daily note */
-function extractIncompletePriorities(content: string): string[] {
-	const lines = content.split("\n");
-	const priorities: string[] = [];
-	let inPriorities = false;
+/** Most recent daily note strictly before `day`, if any */
+function previousDailyDay(day: string): string | undefined {
+	const dir = getDailyDir();
+	if (!existsSync(dir)) return undefined;
+	return readdirSync(dir)
+		.filter((f) => /^\d{4}-\d{2}-\d{2}\.md$/.test(f))
+		.map((f) => f.slice(0, 10))
+		.filter((d) => d < day)
+		.sort()
+		.pop();
+}
 
-	for (const line of lines) {
-		if (line.startsWith("## Priorities")) {
-			inPriorities = true;
-			continue;
-		}
-		if (inPriorities && line.startsWith("## ")) break;
-		if (inPriorities) {
-			const match = line.match(/^-\s+\[\s\]\s+(.+)/);
-			if (match && match[1].trim()) {
-				// Don't roll over empty or placeholder items
-				priorities.push(match[1].replace(/\s*\*\(rolled over\)\*\s*$/, ""));
-			}
-		}
-	}
-	return priorities;
+export interface Priority {
+	text: string;
+	done: boolean;
+	/** Day the item was first carried over from (YYYY-MM-DD) */
+	since?: string;
 }
 
-/** Append a timestamped entry to the Log section of today's note */
-export function appendToLog(entry: string, date?: Date): void {
-	const path = ensureDailyNote(date);
+const SINCE_RE = /\s*\*\(since (\d{4}-\d{2}-\d{2})\)\*\s*$/;
+// Marker written by older versions, which didn't record an origin date
+const LEGACY_CARRY_RE = /\s*\*\(rolled over\)\*\s*$/;
+
+/** Parse a `- [ ] text *(since YYYY-MM-DD)*` line */
+export function parsePriority(line: string): Priority | undefined {
+	const match = line.match(/^-\s+\[([ xX])\]\s+(.+)/);
+	if (!match || !match[2].trim()) return undefined;
+	const since = match[2].match(SINCE_RE)?.[1];
+	const text = match[2].replace(SINCE_RE, "").replace(LEGACY_CARRY_RE, "").trim();
+	return { text, done: match[1] !== " ", ...(since ? { since } : {}) };
+}
+
+export function formatPriority(p: Priority): string {
+	return `- [${p.done ? "x" : " "}] ${p.text}${p.since && !p.done ? ` *(since ${p.since})*` : ""}`;
+}
+
+/** Whole days an item has been carried, as of `day` (0 if it's new today) */
+export function carriedDays(p: Priority, day: string = today()): number {
+	return p.since ? daysBetween(p.since, day) : 0;
+}
+
+/** Priorities listed in a daily note's content */
+export function getPrioritiesFrom(content: string): Priority[] {
+	return (readSection(content, "Priorities") ?? "")
+		.split("\n")
+		.map(parsePriority)
+		.filter((p): p is Priority => p !== undefined);
+}
+
+const DEFAULT_SECTION_ORDER = ["Priorities", "Log", "Notes", "Decisions", "Learned"];
+
+/** Section order of the daily template, used to place sections missing from a note */
+function dailySectionOrder(): string[] {
+	const templatePath = join(getTemplatesDir(), "daily.md");
+	if (!existsSync(templatePath)) return DEFAULT_SECTION_ORDER;
+	const sections = listSections(readFileSync(templatePath, "utf-8"));
+	return sections.length > 0 ? sections : DEFAULT_SECTION_ORDER;
+}
+
+/** Insert text into a section of a daily note, creating the section in template order */
+function editSection(section: string, text: string, position: InsertPosition, day?: string): void {
+	const path = ensureDailyNote(day);
 	const content = readFileSync(path, "utf-8");
+	writeNote(path, insertIntoSection(content, section, text, position, { order: dailySectionOrder() }));
+}
 
-	const now = new Date();
-	const time = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
-	const logEntry = `- ${time} — ${entry}`;
-
-	// Insert after "## Log" line
-	const lines = content.split("\n");
-	let insertIndex = -1;
-	for (let i = 0; i < lines.length; i++) {
-		if (lines[i].startsWith("## Log")) {
-			// Find first non-empty, non-comment line after Log header, or the next section
-			insertIndex = i + 1;
-			// Skip blank lines and HTML comments right after the header
-			while (insertIndex < lines.length) {
-				const ln = lines[insertIndex];
-				if (ln.startsWith("## ") && !ln.startsWith("## Log")) break;
-				if (ln.startsWith("<!-- ")) {
-					insertIndex++;
-					continue;
-				}
-				if (ln.trim() === "") {
-					insertIndex++;
-					continue;
-				}
-				break;
-			}
-			break;
-		}
-	}
+/** Append a timestamped entry to the Log section of today's note */
+export function appendToLog(entry: string, day?: string): void {
+	editSection("Log", `- ${clockTime()} — ${entry}`, "append", day);
+}
 
-	if (insertIndex === -1) {
-		// No Log section, append at end
-		writeFileSync(path, content + "\n" + logEntry + "\n", "utf-8");
-	} else {
-		lines.splice(insertIndex, 0, logEntry);
-		writeFileSync(path, lines.join("\n"), "utf-8");
-	}
+/** Append content to the end of a section of today's note (created if missing) */
+export function appendToSection(section: string, content: string, day?: string): void {
+	editSection(section, content, "append", day);
 }
 
-/** Append content to a specific section of today's note */
-export function appendToSection(section: string, content: string, date?: Date): void {
-	const path = ensureDailyNote(date);
-	const fileContent = readFileSync(path, "utf-8");
-	const lines = fileContent.split("\n");
-
-	let insertIndex = -1;
-	for (let i = 0; i < lines.length; i++) {
-		if (lines[i].startsWith(`## ${section}`)) {
-			insertIndex = i + 1;
-			// Skip blanks/comments
-			while (insertIndex < lines.length) {
-				const ln = lines[insertIndex];
-				if (ln.startsWith("## ") && !ln.startsWith(`## ${section}`)) break;
-				if (ln.startsWith("<!-- ")) {
-					insertIndex++;
-					continue;
-				}
-				if (ln.trim() === "") {
-					insertIndex++;
-					continue;
-				}
-				break;
-			}
-			break;
-		}
-	}
+/** Insert content at the top of a section of today's note (created if missing) */
+export function prependToSection(section: string, content: string, day?: string): void {
+	editSection(section, content, "prepend", day);
+}
 
-	if (insertIndex >= 0) {
-		lines.splice(insertIndex, 0, content);
-		writeFileSync(path, lines.join("\n"), "utf-8");
-	}
+/** Replace the Priorities section of today's note, keeping any comment hints */
+export function writePriorities(lines: string[], day?: string): void {
+	const path = ensureDailyNote(day);
+	const content = readFileSync(path, "utf-8");
+	writeNote(
+		path,
+		replaceSectionContent(content, "Priorities", lines.join("\n"), {
+			order: dailySectionOrder(),
+			keepComments: true,
+		})
+	);
 }
 
 /** Read today's daily note content */
-export function readDailyNote(date?: Date): string {
-	const path = ensureDailyNote(date);
+export function readDailyNote(day?: string): string {
+	const path = ensureDailyNote(day);
 	return readFileSync(path, "utf-8");
 }
 
+/** Bullet texts (without "- " or checkbox) in a block of markdown */
+export function bulletTexts(text: string): string[] {
+	return text
+		.split("\n")
+		.map((line) => line.match(/^\s*[-*]\s+(?:\[[ xX]\]\s+)?(.+)$/)?.[1]?.trim())
+		.filter((item): item is string => Boolean(item));
+}
+
+/** Bullet texts (without "- " or checkbox) in a section of today's note */
+export function sectionBullets(section: string, day?: string): string[] {
+	return bulletTexts(readSection(readDailyNote(day), section) ?? "");
+}
+
 /** Get priorities from today's note */
-export function getPriorities(date?: Date): Array<{ text: string; done: boolean }> {
-	const content = readDailyNote(date);
-	const lines = content.split("\n");
-	const priorities: Array<{ text: string; done: boolean }> = [];
-	let inPriorities = false;
-
-	for (const line of lines) {
-		if (line.startsWith("## Priorities")) {
-			inPriorities = true;
-			continue;
-		}
-		if (inPriorities && line.startsWith("## ")) break;
-		if (inPriorities) {
-			const doneMatch = line.match(/^-\s+\[x\]\s+(.+)/i);
-			const todoMatch = line.match(/^-\s+\[\s\]\s+(.+)/);
-			if (doneMatch) priorities.push({ text: doneMatch[1], done: true });
-			else if (todoMatch && todoMatch[1].trim()) priorities.push({ text: todoMatch[1], done: false });
-		}
-	}
-	return priorities;
+export function getPriorities(day?: string): Priority[] {
+	return getPrioritiesFrom(readDailyNote(day));
 }
 
 /** List recent daily notes */
 export function listRecentDailies(count: number = 7): string[] {
-	if (!existsSync(DAILY_DIR)) return [];
-	return readdirSync(DAILY_DIR)
+	const dir = getDailyDir();
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir)
 		.filter((f) => f.endsWith(".md") && /^\d{4}-\d{2}-\d{2}\.md$/.test(f))
 		.sort()
 		.reverse()
@@ -0,0 +1,183 @@
+/**
+ * Dates
+ *
+ * The single source of "what day is it" for the vault. Days are plain
+ * `YYYY-MM-DD` strings computed in the configured timezone, and a day runs
+ * from `dayStartHour` to `dayStartHour` the next morning, so work at 1am
+ * with a 4am boundary still lands in the previous day's note.
+ */
+
+export interface DateSettings {
+	/** IANA timezone, e.g. "Europe/Berlin"; system timezone when unset */
+	timezone?: string;
+	/** Hour (0-23) at which a new day begins */
+	dayStartHour: number;
+}
+
+let settings: DateSettings = { dayStartHour: 0 };
+let formatter: Intl.DateTimeFormat | undefined;
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
+/** True when the runtime knows the timezone */
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Apply timezone and day boundary. An unknown timezone falls back to the system one. */
+export function setDateSettings(next: { timezone?: string; dayStartHour?: number }): void {
+	const hour = Math.trunc(next.dayStartHour ?? 0);
+	settings = {
+		timezone: next.timezone && isValidTimezone(next.timezone) ? next.timezone : undefined,
+		dayStartHour: hour >= 0 && hour < 24 ? hour : 0,
+	};
+	formatter = undefined;
+}
+
+export function getDateSettings(): DateSettings {
+	return settings;
+}
+
+interface ZonedParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+/** Wall-clock fields of an instant in the configured timezone */
+function zoned(instant: Date): ZonedParts {
+	formatter ??= new Intl.DateTimeFormat("en-US", {
+		timeZone: settings.timezone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+	});
+	const parts: Record<string, number> = {};
+	for (const part of formatter.formatToParts(instant)) {
+		if (part.type !== "literal") parts[part.type] = Number(part.value);
+	}
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		hour: parts.hour,
+		minute: parts.minute,
+		second: parts.second,
+	};
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function dayString(p: { year: number; month: number; day: number }): string {
+	return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/** The logical day an instant belongs to, honoring the day boundary */
+export function dayOf(instant: Date = new Date()): string {
+	const shifted = new Date(instant.getTime() - settings.dayStartHour * 3_600_000);
+	return dayString(zoned(shifted));
+}
+
+/** Today's logical day as YYYY-MM-DD */
+export function today(): string {
+	return dayOf(new Date());
+}
+
+/** Wall-clock time as HH:MM (or HH:MM:SS) in the configured timezone */
+export function clockTime(instant: Date = new Date(), seconds = false): string {
+	const p = zoned(instant);
+	return seconds ? `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` : `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/** Compact wall-clock stamp for file names: YYYYMMDD-HHMMSS */
+export function fileStamp(instant: Date = new Date()): string {
+	const p = zoned(instant);
+	return `${p.year}${pad(p.month)}${pad(p.day)}-${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/** Shift a YYYY-MM-DD day by whole days */
+export function addDays(day: string, days: number): string {
+	const d = new Date(`${day}T00:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
+	return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from one YYYY-MM-DD day to another (negative if `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Monday = 0 … Sunday = 6 */
+function isoWeekday(day: string): number {
+	return (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+/** ISO 8601 week of a day, e.g. "2026-W43" (the week's Thursday decides the year) */
+export function isoWeek(day: string): string {
+	const thursday = addDays(day, 3 - isoWeekday(day));
+	const year = thursday.slice(0, 4);
+	const week = Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1;
+	return `${year}-W${pad(week)}`;
+}
+
+/** Monday of an ISO week ("2026-W43" → "2026-10-19") */
+export function isoWeekStart(week: string): string {
+	const [year, num] = week.split("-W").map(Number);
+	const jan4 = `${year}-01-04`;
+	return addDays(jan4, (num - 1) * 7 - isoWeekday(jan4));
+}
+
+/** Last day of a YYYY-MM month */
+export function monthEnd(month: string): string {
+	const [year, num] = month.split("-").map(Number);
+	return dayString({ year, month: num, day: new Date(Date.UTC(year, num, 0)).getUTCDate() });
+}
+
+/** "Monday" for a YYYY-MM-DD day */
+export function weekdayName(day: string): string {
+	return DAYS[new Date(`${day}T00:00:00Z`).getUTCDay()];
+}
+
+/** "October 2026" for a YYYY-MM month */
+export function monthName(month: string): string {
+	const [year, num] = month.split("-").map(Number);
+	return `${MONTHS[num - 1]} ${year}`;
+}
+
+/** "October 19, 2026" for a YYYY-MM-DD day */
+export function longDate(day: string): string {
+	const [year, month, date] = day.split("-").map(Number);
+	return `${MONTHS[month - 1]} ${date}, ${year}`;
+}
+
+/** "Oct 19" for a YYYY-MM-DD day */
+export function shortDate(day: string): string {
+	const [, month, date] = day.split("-").map(Number);
+	return `${MONTHS[month - 1].slice(0, 3)} ${date}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Project Detection
+ *
+ * Works out which project note a working directory belongs to. Sources, in
+ * order of precedence:
+ *   1. a `.second-brain` marker file in the directory or an ancestor
+ *   2. the git remote URL of the enclosing repository
+ *   3. the `name` in the nearest package.json
+ *   4. directory names from cwd up to the repository root, or outside a
+ *      repository up to the home directory (deepest first)
+ * Each candidate is matched against project file names, titles and the
+ * `aliases` list in project frontmatter. Only active projects are matched
+ * (see projectStatus). Results are cached per cwd until a project note is
+ * written.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import { asStringList } from "./frontmatter.js";
+import { getBrainDir, listNotes, onNoteWritten, paraDir, slugify } from "./para.js";
+import { projectStatus } from "./projects.js";
+
+/** Marker file naming the project for a directory tree */
+export const PROJECT_MARKER = ".second-brain";
+
+const HOME = process.env.HOME ?? process.env.USERPROFILE;
+
+export type DetectionSource = "marker" | "git" | "package" | "directory";
+
+export interface DetectedProject {
+	/** Project note name, or the marker's value when no note matches */
+	name: string;
+	source: DetectionSource;
+}
+
+/** Nearest ancestor (including dir itself) that contains `entry` */
+function findUp(dir: string, entry: string): string | undefined {
+	let current = resolve(dir);
+	while (true) {
+		if (existsSync(join(current, entry))) return current;
+		const parent = dirname(current);
+		if (parent === current) return undefined;
+		current = parent;
+	}
+}
+
+/** Project name from a marker file: its first non-empty line, with an optional `project:` prefix */
+function readMarker(cwd: string): string | undefined {
+	const dir = findUp(cwd, PROJECT_MARKER);
+	if (!dir) return undefined;
+	try {
+		const line = readFileSync(join(dir, PROJECT_MARKER), "utf-8")
+			.split("\n")
+			.map((l) => l.trim())
+			.find((l) => l && !l.startsWith("#"));
+		return line?.replace(/^project:\s*/i, "").trim() || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Git directory of a repository; `.git` may be a file pointing elsewhere (worktrees, submodules) */
+function gitDir(root: string): string | undefined {
+	const dotGit = join(root, ".git");
+	if (statSync(dotGit).isDirectory()) return dotGit;
+	const gitdir = readFileSync(dotGit, "utf-8").match(/^gitdir:\s*(.+)$/m)?.[1]?.trim();
+	return gitdir ? resolve(root, gitdir) : undefined;
+}
+
+/** Config file of a repository */
+function gitConfigPath(root: string): string | undefined {
+	const dir = gitDir(root);
+	if (!dir) return undefined;
+	// Worktrees keep the shared config in the common dir
+	const commondir = join(dir, "commondir");
+	const base = existsSync(commondir) ? resolve(dir, readFileSync(commondir, "utf-8").trim()) : dir;
+	return join(base, "config");
+}
+
+/** Checked-out branch of the repository containing cwd (short commit hash when detached) */
+export function currentBranch(cwd: string): string | undefined {
+	const root = findUp(cwd, ".git");
+	if (!root) return undefined;
+	try {
+		const dir = gitDir(root);
+		const head = dir ? readFileSync(join(dir, "HEAD"), "utf-8").trim() : "";
+		return head.match(/^ref:\s*refs\/heads\/(.+)$/)?.[1] ?? (head.slice(0, 7) || undefined);
+	} catch {
+		return undefined;
+	}
+}
+
+/** Remote URL of a repository: origin if present, else the first remote */
+function readGitRemote(root: string): string | undefined {
+	try {
+		const configPath = gitConfigPath(root);
+		if (!configPath || !existsSync(configPath)) return undefined;
+		const remotes = [...readFileSync(configPath, "utf-8").matchAll(/\[remote "([^"]+)"\]([^[]*)/g)].map((m) => ({
+			name: m[1],
+			url: m[2].match(/^\s*url\s*=\s*(.+)$/m)?.[1]?.trim(),
+		}));
+		return (remotes.find((r) => r.name === "origin") ?? remotes[0])?.url;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Names a remote URL can match: "repo", "owner/repo" and the URL itself */
+export function remoteKeys(url: string): string[] {
+	const path = url
+		.replace(/\.git\/?$/, "")
+		.replace(/\/+$/, "")
+		.replace(/^[a-z+]+:\/\/[^/]+\//i, "")
+		.replace(/^[^@/]+@[^:]+:/, "");
+	const parts = path.split("/").filter(Boolean);
+	return [parts.at(-1), parts.slice(-2).join("/"), url].filter((k): k is string => Boolean(k));
+}
+
+/** Names a package name can match: "@scope/pkg" and "pkg" */
+function readPackageName(cwd: string): string[] {
+	const dir = findUp(cwd, "package.json");
+	if (!dir) return [];
+	try {
+		const name = JSON.parse(readFileSync(join(dir, "package.json"), "utf-8")).name;
+		return typeof name === "string" && name ? [name, name.split("/").pop() ?? name] : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Directory names from cwd up to `stop` (inclusive), deepest first; without
+ * a stop (no repository) up to the filesystem root. Never the home directory
+ * or above.
+ */
+function ancestorNames(cwd: string, stop?: string): string[] {
+	const names: string[] = [];
+	let current = resolve(cwd);
+	while (current !== HOME && dirname(current) !== current) {
+		names.push(basename(current));
+		if (current === stop) break;
+		current = dirname(current);
+	}
+	return names;
+}
+
+/** Lookup from every name a live project goes by to its note name */
+function buildProjectIndex(): Map<string, string> {
+	const index = new Map<string, string>();
+	const add = (key: string, name: string) => {
+		for (const k of [key.toLowerCase(), slugify(key)]) {
+			if (k && !index.has(k)) index.set(k, name);
+		}
+	};
+
+	const projects = listNotes("projects").filter((p) => projectStatus(p) === "active");
+	// File names and titles first, so an alias never shadows a real name
+	for (const p of projects) {
+		add(p.name, p.name);
+		add(p.name.split("/").pop() ?? p.name, p.name);
+		add(p.title, p.name);
+	}
+	for (const p of projects) {
+		for (const alias of asStringList(p.frontmatter.aliases)) add(alias, p.name);
+	}
+	return index;
+}
+
+/** Detect the project for a directory, with where the answer came from */
+export function detectProjectSource(cwd: string): DetectedProject | undefined {
+	const index = buildProjectIndex();
+	const lookup = (keys: string[]) => {
+		for (const key of keys) {
+			const name = index.get(key.toLowerCase()) ?? index.get(slugify(key));
+			if (name) return name;
+		}
+		return undefined;
+	};
+
+	const marker = readMarker(cwd);
+	if (marker) return { name: lookup([marker]) ?? marker, source: "marker" };
+
+	const repoRoot = findUp(cwd, ".git");
+	const remote = repoRoot ? readGitRemote(repoRoot) : undefined;
+	const fromRemote = remote ? lookup(remoteKeys(remote)) : undefined;
+	if (fromRemote) return { name: fromRemote, source: "git" };
+
+	const fromPackage = lookup(readPackageName(cwd));
+	if (fromPackage) return { name: fromPackage, source: "package" };
+
+	const fromDirectory = lookup(ancestorNames(cwd, repoRoot));
+	if (fromDirectory) return { name: fromDirectory, source: "directory" };
+
+	return undefined;
+}
+
+const cache = new Map<string, DetectedProject | null>();
+
+// Only project notes affect detection; daily log appends must not empty the cache
+onNoteWritten((path) => {
+	if (!relative(paraDir("projects"), path).startsWith("..")) cache.clear();
+});
+
+/** Detect the project note for a working directory (cached per vault and cwd) */
+export function detectProject(cwd: string): string | undefined {
+	const key = `${getBrainDir()}\n${resolve(cwd)}`;
+	if (!cache.has(key)) cache.set(key, detectProjectSource(cwd) ?? null);
+	return cache.get(key)?.name;
+}
+
+/** Forget cached detections, e.g. after project notes changed outside the extension */
+export function clearProjectCache(): void {
+	cache.clear();
+}
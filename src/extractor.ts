@@ -3,16 +3,26 @@
  *
  * Extracts important information from conversation messages.
  * Two modes:
- *   - Light extraction (agent_end): fast heuristic scan for key facts
- *   - Deep extraction (session_before_compact / shutdown): LLM-powered full analysis
+ *   - Light extraction (agent_end): rule-pack scan for key facts (see rules.ts)
+ *   - Deep extraction (session_before_compact / shutdown / /extract): LLM-powered full analysis
  */
 
-import { writeFileSync, existsSync, readFileSync, mkdirSync } from "node:fs";
-import { join, basename } from "node:path";
-import { BRAIN_DIR, INBOX_DIR, PROJECTS_DIR, RESOURCES_DIR, slugify, detectProject } from "./para.js";
-import { appendToLog, appendToSection } from "./daily.js";
-
-interface ExtractedKnowledge {
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { join, basename, dirname } from "node:path";
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { LOG_PATH } from "./config.js";
+import { clockTime, today } from "./dates.js";
+import { paraDir, slugify, findNoteSlot, writeNote } from "./para.js";
+import { detectProject } from "./detect.js";
+import { appendToSectionContent } from "./sections.js";
+import { appendToLog, appendToSection, sectionBullets } from "./daily.js";
+import { buildNote } from "./frontmatter.js";
+import { renderNote, templateVars } from "./templates.js";
+import { itemKey, type ExtractionLedger } from "./ledger.js";
+import { EXTRACTION_CATEGORIES, loadRules, proseLines, type LoadedRules } from "./rules.js";
+
+export interface ExtractedKnowledge {
 	decisions: string[];
 	solutions: string[];
 	learnings: string[];
@@ -26,12 +36,10 @@ type ContentBlock = {
 	text?: string;
 };
 
-type SessionEntry = {
-	type: string;
-	message?: {
-		role?: string;
-		content?: unknown;
-	};
+type ConversationMessage = {
+	role?: string;
+	content?: unknown;
+	timestamp?: number;
 };
 
 /** Extract text from message content */
@@ -44,8 +52,17 @@ function extractText(content: unknown): string {
 		.join("\n");
 }
 
-/** Light extraction: scan conversation text with heuristics */
-export function lightExtract(entries: SessionEntry[], cwd: string): ExtractedKnowledge {
+/**
+ * Light extraction: match user and assistant prose against the rule pack.
+ * Tool results, code fences, quotes and tables are never scanned, nor are
+ * messages the ledger has already seen.
+ */
+export function lightExtract(
+	messages: ConversationMessage[],
+	cwd: string,
+	rules: LoadedRules = loadRules(),
+	ledger?: ExtractionLedger
+): ExtractedKnowledge {
 	const result: ExtractedKnowledge = {
 		decisions: [],
 		solutions: [],
@@ -55,77 +72,55 @@ export function lightExtract(entries: SessionEntry[], cwd: string): ExtractedKno
 		projectContext: detectProject(cwd),
 	};
 
-	for (const entry of entries) {
-		if (entry.type !== "message" || !entry.message) continue;
-		const text = extractText(entry.message.content);
+	for (const message of messages) {
+		const role = message.role;
+		if (role !== "user" && role !== "assistant") continue;
+		if (ledger?.hasMessage(message)) continue;
+		const text = extractText(message.content);
 		if (!text) continue;
 
-		const lines = text.split("\n");
-		for (const line of lines) {
-			const lower = line.toLowerCase().trim();
-
-			// Decisions
-			if (
-				/\b(decided|going with|let's (go with|use|do)|we('ll| will) (use|go))\b/i.test(line) &&
-				line.length > 15 &&
-				line.length < 300
-			) {
-				result.decisions.push(line.trim());
-			}
-
-			// Solutions (error → fix pattern)
-			if (
-				/\b(fix(ed)?|solv(ed|e)|resolv(ed|e)|the (issue|problem|error) was|workaround)\b/i.test(line) &&
-				line.length > 15 &&
-				line.length < 300
-			) {
-				result.solutions.push(line.trim());
-			}
-
-			// Learnings
-			if (
-				/\b(turns out|TIL|learned|discovered|important(ly)?:?\s|note:?\s|key (insight|takeaway))\b/i.test(line) &&
-				line.length > 10 &&
-				line.length < 300
-			) {
-				result.learnings.push(line.trim());
-			}
-
-			// TODOs
-			if (
-				/\b(TODO|FIXME|need to|should (also )?|remember to|don't forget)\b/i.test(line) &&
-				line.length > 10 &&
-				line.length < 200
-			) {
-				result.todos.push(line.trim());
-			}
-
-			// Useful commands
-			if (
-				entry.message.role === "assistant" &&
-				/^```/.test(line.trim()) === false &&
-				/^\$?\s*(npm |yarn |pnpm |brew |go |cargo |pip |terraform |aws |gcloud |kubectl |docker |git )/.test(
-					line.trim()
-				) &&
-				line.length < 200
-			) {
-				result.commands.push(line.trim());
+		for (const line of proseLines(text)) {
+			const trimmed = line.trim();
+			for (const rule of rules.rules) {
+				if (!rule.roles.includes(role)) continue;
+				if (trimmed.length < rule.minLength || trimmed.length > rule.maxLength) continue;
+				if (rule.regex.test(trimmed)) result[rule.category].push(trimmed);
 			}
 		}
 	}
 
 	// Deduplicate
-	result.decisions = [...new Set(result.decisions)].slice(0, 5);
-	result.solutions = [...new Set(result.solutions)].slice(0, 5);
-	result.learnings = [...new Set(result.learnings)].slice(0, 5);
-	result.todos = [...new Set(result.todos)].slice(0, 5);
-	result.commands = [...new Set(result.commands)].slice(0, 5);
+	for (const category of EXTRACTION_CATEGORIES) {
+		result[category] = [...new Set(result[category])].slice(0, rules.limits[category]);
+	}
 
 	return result;
 }
 
-/** Write light extraction results to daily note */
-export function writeToDaily(knowledge: ExtractedKnowledge): void {
+/**
+ * Items that are new: not in the ledger, not already a bullet in today's
+ * `section` (when given), and not repeated within the list itself.
+ */
+function freshItems(items: string[], ledger?: ExtractionLedger, section?: string): string[] {
+	const seen = new Set((section ? sectionBullets(section) : []).map(itemKey));
+	return items.filter((item) => {
+		const key = itemKey(item);
+		if (!key || seen.has(key) || ledger?.hasItem(item)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/**
+ * Write light extraction results to daily note, skipping anything already
+ * recorded. Returns false when nothing new was found.
+ */
+export function writeToDaily(knowledge: ExtractedKnowledge, ledger?: ExtractionLedger): boolean {
+	const decisions = freshItems(knowledge.decisions, ledger, "Decisions");
+	const solutions = freshItems(knowledge.solutions, ledger);
+	const learnings = freshItems(knowledge.learnings, ledger, "Learned");
+	if (decisions.length === 0 && solutions.length === 0 && learnings.length === 0) return false;
+
 	const parts: string[] = [];
 
 	if (knowledge.projectContext) {
@@ -133,9 +128,9 @@ export function writeToDaily(knowledge: ExtractedKnowledge): void {
 	}
 
 	const items: string[] = [];
-	if (knowledge.decisions.length > 0) items.push(`${knowledge.decisions.length} decision(s)`);
-	if (knowledge.solutions.length > 0) items.push(`${knowledge.solutions.length} solution(s)`);
-	if (knowledge.learnings.length > 0) items.push(`${knowledge.learnings.length} learning(s)`);
+	if (decisions.length > 0) items.push(`${decisions.length} decision(s)`);
+	if (solutions.length > 0) items.push(`${solutions.length} solution(s)`);
+	if (learnings.length > 0) items.push(`${learnings.length} learning(s)`);
 	if (items.length > 0) parts.push(items.join(", "));
 
 	if (parts.length > 0) {
@@ -143,21 +138,86 @@ export function writeToDaily(knowledge: ExtractedKnowledge): void {
 	}
 
 	// Write decisions
-	for (const d of knowledge.decisions) {
+	for (const d of decisions) {
 		appendToSection("Decisions", `- ${d}`);
 	}
 
 	// Write learnings
-	for (const l of knowledge.learnings) {
+	for (const l of learnings) {
 		appendToSection("Learned", `- ${l}`);
 	}
+
+	for (const item of [...decisions, ...solutions, ...learnings]) ledger?.markItem(item);
+	return true;
+}
+
+// ─── Extraction markers ────────────────────────────────────────────────
+
+/** Custom session entry recording how far deep extraction has read the branch */
+export const EXTRACTION_ENTRY = "second-brain-extraction";
+
+export type ExtractionTrigger = "compact" | "shutdown" | "manual";
+
+export interface ExtractionMarker {
+	/** Id of the last session entry covered; absent when nothing could be extracted */
+	upTo?: string;
+	trigger: ExtractionTrigger;
+	at: string;
+	/** Tokens (input + output) spent, counted against the session budget */
+	tokens?: number;
+}
+
+type BranchEntry = {
+	type: string;
+	id: string;
+	customType?: string;
+	data?: unknown;
+};
+
+/**
+ * Entries on a branch that no deep extraction has covered yet, in order.
+ * Everything up to the `upTo` of the latest marker is skipped. When `until`
+ * is given, stops before that entry (compaction keeps entries from there on).
+ */
+export function unextractedEntries<T extends BranchEntry>(branch: T[], until?: string): T[] {
+	let start = 0;
+	for (let i = 0; i < branch.length; i++) {
+		const entry = branch[i];
+		if (entry.type !== "custom" || entry.customType !== EXTRACTION_ENTRY) continue;
+		const upTo = (entry.data as ExtractionMarker | undefined)?.upTo;
+		if (!upTo) continue;
+		const idx = branch.findIndex((e) => e.id === upTo);
+		start = Math.max(start, (idx >= 0 ? idx : i) + 1);
+	}
+
+	const endIdx = until ? branch.findIndex((e) => e.id === until) : -1;
+	const end = endIdx >= 0 ? endIdx : branch.length;
+	return branch.slice(start, Math.max(start, end));
+}
+
+/** Tokens already spent on deep extraction, summed over all markers in a session */
+export function extractionTokensUsed(entries: BranchEntry[]): number {
+	let total = 0;
+	for (const entry of entries) {
+		if (entry.type !== "custom" || entry.customType !== EXTRACTION_ENTRY) continue;
+		total += (entry.data as ExtractionMarker | undefined)?.tokens ?? 0;
+	}
+	return total;
 }
 
 /** Build the LLM prompt for deep extraction */
-export function buildDeepExtractionPrompt(conversationText: string, cwd: string): string {
+export function buildDeepExtractionPrompt(
+	conversationText: string,
+	cwd: string,
+	part?: { index: number; total: number }
+): string {
 	const project = detectProject(cwd) ?? basename(cwd);
+	const partNote =
+		part && part.total > 1
+			? `\nThis is part ${part.index} of ${part.total} of a long conversation. Extract only what appears in this part.\n`
+			: "";
 	return `You are a knowledge extraction assistant. Analyze this conversation and extract structured knowledge.
-
+${partNote}
 Current project context: ${project}
 Working directory: ${cwd}
 
@@ -181,87 +241,304 @@ ${conversationText}
 Respond with ONLY the JSON object, no markdown fences.`;
 }
 
-/** Parse the LLM deep extraction response */
-export interface DeepExtraction {
-	summary: string;
-	decisions: string[];
-	solutions: string[];
-	learnings: string[];
-	todos: string[];
-	commands: string[];
-	projectNotes: string;
-	resourceTopics: string[];
+// ─── Deep extraction schema ────────────────────────────────────────────
+
+export const DeepExtractionSchema = Type.Object({
+	summary: Type.String(),
+	decisions: Type.Array(Type.String()),
+	solutions: Type.Array(Type.String()),
+	learnings: Type.Array(Type.String()),
+	todos: Type.Array(Type.String()),
+	commands: Type.Array(Type.String()),
+	projectNotes: Type.String(),
+	resourceTopics: Type.Array(Type.String()),
+});
+
+export type DeepExtraction = Static<typeof DeepExtractionSchema>;
+
+const STRING_FIELDS = ["summary", "projectNotes"] as const;
+const LIST_FIELDS = ["decisions", "solutions", "learnings", "todos", "commands", "resourceTopics"] as const;
+
+export type DeepExtractionParse =
+	| { ok: true; extraction: DeepExtraction; repaired: boolean }
+	| { ok: false; errors: string[] };
+
+/**
+ * Parse and validate the LLM deep extraction response.
+ * Fences and surrounding prose are stripped, truncated JSON is closed off,
+ * and near-miss shapes are coerced (a string where a list is expected, objects
+ * in a list, missing fields) before checking against DeepExtractionSchema.
+ */
+export function parseDeepExtraction(response: string): DeepExtractionParse {
+	const start = response.indexOf("{");
+	if (start === -1) return { ok: false, errors: ["Response contains no JSON object"] };
+	const text = response
+		.slice(start)
+		.replace(/\n?```\s*$/, "")
+		.trim();
+
+	let raw: unknown;
+	let repaired = false;
+	try {
+		raw = JSON.parse(text);
+	} catch {
+		try {
+			raw = JSON.parse(repairJson(text));
+			repaired = true;
+		} catch (err) {
+			return { ok: false, errors: [`Invalid JSON: ${(err as Error).message}`] };
+		}
+	}
+
+	if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+		return { ok: false, errors: ["Expected a JSON object at the top level"] };
+	}
+
+	const extraction = coerceExtraction(raw as Record<string, unknown>);
+	if (!Value.Check(DeepExtractionSchema, extraction)) {
+		const errors = [...Value.Errors(DeepExtractionSchema, extraction)].map(
+			(e) => `${e.path || "/"}: ${e.message}`
+		);
+		return { ok: false, errors };
+	}
+	return { ok: true, extraction, repaired };
+}
+
+/** Bring a loosely-shaped object as close to DeepExtraction as possible */
+function coerceExtraction(raw: Record<string, unknown>): Record<string, unknown> {
+	const out: Record<string, unknown> = { ...raw };
+	for (const key of STRING_FIELDS) out[key] = coerceString(raw[key]);
+	for (const key of LIST_FIELDS) out[key] = coerceList(raw[key]);
+	return out;
+}
+
+function coerceString(value: unknown): unknown {
+	if (value === undefined || value === null) return "";
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	if (Array.isArray(value)) return value.map(itemText).filter(Boolean).join("; ");
+	return value;
+}
+
+function coerceList(value: unknown): unknown {
+	if (value === undefined || value === null || value === "") return [];
+	if (typeof value === "string") {
+		// A bulleted or multi-line string instead of an array
+		return value
+			.split("\n")
+			.map((l) => l.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+			.filter(Boolean);
+	}
+	if (Array.isArray(value)) return value.map(itemText).filter(Boolean);
+	return value;
+}
+
+/** Text for one list item; objects like {decision, rationale} are joined */
+function itemText(item: unknown): string {
+	if (item === null || item === undefined) return "";
+	if (typeof item === "object") {
+		return Object.values(item as Record<string, unknown>)
+			.map(itemText)
+			.filter(Boolean)
+			.join(" — ");
+	}
+	return String(item).trim();
+}
+
+/**
+ * Best-effort fix for JSON cut off mid-stream (e.g. by maxTokens):
+ * closes an open string, drops a dangling key or trailing comma, and
+ * closes any open arrays and objects.
+ */
+export function repairJson(text: string): string {
+	const stack: string[] = [];
+	let inString = false;
+	let escaped = false;
+
+	for (const ch of text) {
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (ch === "\\") escaped = true;
+			else if (ch === '"') inString = false;
+			continue;
+		}
+		if (ch === '"') inString = true;
+		else if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+		else if (ch === "}" || ch === "]") stack.pop();
+	}
+
+	let out = text;
+	if (inString) out += escaped ? '\\"' : '"';
+	out = out
+		.replace(/,\s*$/, "")
+		// A key with no value yet: `, "key":` or `, "key"`
+		.replace(/([{,])\s*"[^"]*"\s*:?\s*$/, (m, before) => (stack[stack.length - 1] === "}" ? before : m))
+		.replace(/,\s*$/, "")
+		.replace(/,(\s*[}\]])/g, "$1");
+	return out + stack.reverse().join("");
+}
+
+/** Prompt asking the model to fix a response that failed validation */
+export function buildRepairPrompt(previousResponse: string, errors: string[]): string {
+	return `Your previous response could not be used. It must be a single JSON object matching this shape:
+
+{
+  "summary": string,
+  "decisions": string[],
+  "solutions": string[],
+  "learnings": string[],
+  "todos": string[],
+  "commands": string[],
+  "projectNotes": string,
+  "resourceTopics": string[]
 }
 
-export function parseDeepExtraction(response: string): DeepExtraction | null {
+Problems found:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+<previous_response>
+${previousResponse.slice(0, 8000)}
+</previous_response>
+
+Respond with ONLY the corrected JSON object, no markdown fences. Keep it short enough to finish.`;
+}
+
+/** Append a line (plus optional detail) to the second-brain log file */
+export function logExtractionFailure(message: string, detail?: string): void {
 	try {
-		// Strip markdown fences if present
-		const cleaned = response.replace(/^```json?\n?/m, "").replace(/\n?```$/m, "");
-		return JSON.parse(cleaned);
+		mkdirSync(dirname(LOG_PATH), { recursive: true });
+		const lines = [`[${new Date().toISOString()}] deep extraction: ${message}`];
+		if (detail) lines.push(...detail.split("\n").map((l) => `    ${l}`));
+		appendFileSync(LOG_PATH, lines.join("\n") + "\n", "utf-8");
 	} catch {
-		return null;
+		// Logging must never break extraction
 	}
 }
 
+// ─── Chunking ──────────────────────────────────────────────────────────
+
+/** Rough token count (~4 characters per token), good enough for budgeting */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split entries into consecutive chunks of at most `maxTokens` each, as
+ * measured by `size`. An entry larger than the limit gets a chunk of its own.
+ */
+export function chunkEntries<T>(entries: T[], maxTokens: number, size: (entry: T) => number): T[][] {
+	const chunks: T[][] = [];
+	let current: T[] = [];
+	let currentSize = 0;
+
+	for (const entry of entries) {
+		const n = size(entry);
+		if (current.length > 0 && currentSize + n > maxTokens) {
+			chunks.push(current);
+			current = [];
+			currentSize = 0;
+		}
+		current.push(entry);
+		currentSize += n;
+	}
+	if (current.length > 0) chunks.push(current);
+	return chunks;
+}
+
+/** Keep the head and tail of text that's over the token limit */
+export function clampToTokens(text: string, maxTokens: number): string {
+	const maxChars = maxTokens * 4;
+	if (text.length <= maxChars) return text;
+	const half = Math.floor(maxChars / 2);
+	return `${text.slice(0, half)}\n\n[... ${text.length - maxChars} characters omitted ...]\n\n${text.slice(-half)}`;
+}
+
+/** Drop exact and contained duplicates, keeping the more detailed wording */
+function dedupeList(items: string[]): string[] {
+	const kept: Array<{ text: string; key: string }> = [];
+	for (const text of items) {
+		const key = itemKey(text);
+		if (!key) continue;
+		const idx = kept.findIndex((k) => k.key.includes(key) || key.includes(k.key));
+		if (idx === -1) kept.push({ text, key });
+		else if (key.length > kept[idx].key.length) kept[idx] = { text, key };
+	}
+	return kept.map((k) => k.text);
+}
+
+/** Reduce step: combine per-chunk extractions into one, deduplicating lists */
+export function mergeExtractions(parts: DeepExtraction[]): DeepExtraction {
+	if (parts.length === 1) return parts[0];
+	const joinText = (key: "summary" | "projectNotes", sep: string) =>
+		dedupeList(parts.map((p) => p[key].trim())).join(sep);
+	const list = (key: (typeof LIST_FIELDS)[number]) => dedupeList(parts.flatMap((p) => p[key]));
+
+	return {
+		summary: joinText("summary", " "),
+		decisions: list("decisions"),
+		solutions: list("solutions"),
+		learnings: list("learnings"),
+		todos: list("todos"),
+		commands: list("commands"),
+		projectNotes: joinText("projectNotes", " "),
+		resourceTopics: list("resourceTopics"),
+	};
+}
+
+// ─── Writing ───────────────────────────────────────────────────────────
+
 /** Write deep extraction results to the knowledge base */
-export function writeDeepExtraction(extraction: DeepExtraction, cwd: string): void {
+export function writeDeepExtraction(extraction: DeepExtraction, cwd: string, ledger?: ExtractionLedger): void {
 	const project = detectProject(cwd) ?? basename(cwd);
+	const decisions = freshItems(extraction.decisions, ledger, "Decisions");
+	const learnings = freshItems(extraction.learnings, ledger, "Learned");
+	const solutions = freshItems(extraction.solutions, ledger);
+	const commands = freshItems(extraction.commands, ledger);
+	const todos = freshItems(extraction.todos, ledger);
 
-	// Update daily note with summary
-	appendToLog(`Session summary: ${extraction.summary}`);
+	// Update daily note with summary (missing from lenient or merged extractions)
+	if (extraction.summary.trim()) appendToLog(`Session summary: ${extraction.summary}`);
 
-	for (const d of extraction.decisions) {
+	for (const d of decisions) {
 		appendToSection("Decisions", `- ${d}`);
 	}
-	for (const l of extraction.learnings) {
+	for (const l of learnings) {
 		appendToSection("Learned", `- ${l}`);
 	}
 
-	// Update project note if it exists
+	// Update the project note detection matched (e.g. "infra/terraform"), if there is one
 	if (extraction.projectNotes) {
-		const projectPath = join(PROJECTS_DIR, `${slugify(project)}.md`);
-		if (existsSync(projectPath)) {
+		const projectPath = [project, slugify(project)]
+			.map((name) => join(paraDir("projects"), `${name}.md`))
+			.find((path) => existsSync(path));
+		if (projectPath) {
 			const content = readFileSync(projectPath, "utf-8");
-			const date = new Date().toISOString().split("T")[0];
-			const note = `- ${date}: ${extraction.projectNotes}`;
-
-			if (content.includes("## Progress")) {
-				const lines = content.split("\n");
-				const idx = lines.findIndex((l) => l.startsWith("## Progress"));
-				if (idx >= 0) {
-					// Find the insertion point (after header, skip blanks)
-					let insertIdx = idx + 1;
-					while (insertIdx < lines.length && lines[insertIdx].trim() === "") insertIdx++;
-					lines.splice(insertIdx, 0, note);
-					writeFileSync(projectPath, lines.join("\n"), "utf-8");
-				}
-			}
+			writeNote(projectPath, appendToSectionContent(content, "Progress", `- ${today()}: ${extraction.projectNotes}`));
 		}
 	}
 
 	// Create resource stubs for new topics
 	for (const topic of extraction.resourceTopics) {
-		const slug = slugify(topic);
-		const resourcePath = join(RESOURCES_DIR, `${slug}.md`);
-		if (!existsSync(resourcePath)) {
-			const date = new Date().toISOString().split("T")[0];
-			const content = `---\ntitle: ${topic}\ncreated: ${date}\ntags: []\n---\n# ${topic}\n\n## Summary\n*Auto-created from conversation. Needs expansion.*\n\n## Key Points\n\n## Related\n`;
-			writeFileSync(resourcePath, content, "utf-8");
+		// A note with this title already exists: leave it alone
+		const slot = findNoteSlot(paraDir("resources"), topic);
+		if (!slot.existing) {
+			const vars = templateVars(topic, cwd, { content: "*Auto-created from conversation. Needs expansion.*" });
+			writeNote(slot.path, renderNote("resources", vars));
 		}
 	}
 
 	// Write solutions and commands to inbox for later categorization
 	const items: string[] = [];
-	for (const s of extraction.solutions) items.push(`- **Solution:** ${s}`);
-	for (const c of extraction.commands) items.push(`- **Command:** \`${c}\``);
-	for (const t of extraction.todos) items.push(`- **TODO:** ${t}`);
+	for (const s of solutions) items.push(`- **Solution:** ${s}`);
+	for (const c of commands) items.push(`- **Command:** \`${c}\``);
+	for (const t of todos) items.push(`- [ ] **TODO:** ${t}`);
 
 	if (items.length > 0) {
-		const date = new Date().toISOString().split("T")[0];
-		const time = new Date().toTimeString().split(" ")[0];
-		const inboxPath = join(INBOX_DIR, `session-${date}-${time.replace(/:/g, "")}.md`);
-		const content = `---\ncaptured: ${date}\nproject: ${project}\n---\n# Session Capture: ${project}\n\n${items.join("\n")}\n`;
-		mkdirSync(INBOX_DIR, { recursive: true });
-		writeFileSync(inboxPath, content, "utf-8");
+		const date = today();
+		const time = clockTime(new Date(), true);
+		const inboxPath = join(paraDir("inbox"), `session-${date}-${time.replace(/:/g, "")}.md`);
+		const content = buildNote({ captured: date, project }, `# Session Capture: ${project}\n\n${items.join("\n")}\n`);
+		writeNote(inboxPath, content);
 	}
+
+	for (const item of [...decisions, ...learnings, ...solutions, ...commands, ...todos]) ledger?.markItem(item);
 }
@@ -0,0 +1,188 @@
+/**
+ * Search Filters
+ *
+ * Narrow search results by category, project, tags and date. Filters come
+ * from the second_brain_search parameters or from `/search` syntax:
+ *
+ *   in:resources  project:infra  tag:terraform  since:2026-09  until:2026-10-15
+ *   date:modified  archived:yes
+ *
+ * Archived notes are left out unless `in:archive` or `archived:yes` asks for them.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { basename, relative, sep } from "node:path";
+import { dayOf, monthEnd } from "./dates.js";
+import { asString, asStringList, parseNote, type Frontmatter } from "./frontmatter.js";
+import { categoryOf, paraDir, slugify, type NoteCategory } from "./para.js";
+
+export const NOTE_CATEGORIES = [
+	"inbox",
+	"projects",
+	"areas",
+	"resources",
+	"archive",
+	"daily",
+	"weekly",
+	"monthly",
+] as const satisfies readonly NoteCategory[];
+
+export interface SearchFilters {
+	/** Only these categories (any of them) */
+	categories?: NoteCategory[];
+	/** Notes belonging to a project: its note, its subfolder, or tagged `project:` */
+	project?: string;
+	/** Notes carrying all of these tags */
+	tags?: string[];
+	/** Only daily notes (same as categories: ["daily"]) */
+	dailyOnly?: boolean;
+	/** Earliest day (YYYY, YYYY-MM or YYYY-MM-DD), inclusive */
+	since?: string;
+	/** Latest day (YYYY, YYYY-MM or YYYY-MM-DD), inclusive */
+	until?: string;
+	/** Which date since/until compare: the note's created date (default) or its last modification */
+	dateField?: "created" | "modified";
+	/** Search the archive as well */
+	includeArchive?: boolean;
+}
+
+/** Singular and plural names accepted by `in:` */
+const CATEGORY_ALIASES: Record<string, NoteCategory> = {
+	project: "projects",
+	area: "areas",
+	resource: "resources",
+	archived: "archive",
+	day: "daily",
+	week: "weekly",
+	month: "monthly",
+};
+
+/** Whether any filter is set (so results must be checked note by note) */
+export function hasFilters(filters: SearchFilters): boolean {
+	return Object.values(filters).some((v) => v !== undefined && v !== false && !(Array.isArray(v) && v.length === 0));
+}
+
+/** First or last day of a partial date; undefined when it isn't one */
+export function dateBound(value: string, end: boolean): string | undefined {
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+	if (/^\d{4}-\d{2}$/.test(value)) return end ? monthEnd(value) : `${value}-01`;
+	if (/^\d{4}$/.test(value)) return end ? `${value}-12-31` : `${value}-01-01`;
+	return undefined;
+}
+
+export interface ParsedSearch {
+	query: string;
+	filters: SearchFilters;
+	/** Filter tokens that couldn't be understood, e.g. "in:nowhere" */
+	invalid: string[];
+}
+
+/** Split `/search` arguments into the query text and filters */
+export function parseSearchArgs(args: string): ParsedSearch {
+	const filters: SearchFilters = {};
+	const invalid: string[] = [];
+	const words: string[] = [];
+
+	for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+		const m = token.match(/^(in|project|tag|since|until|date|archived):(.+)$/i);
+		if (!m) {
+			words.push(token);
+			continue;
+		}
+		const key = m[1].toLowerCase();
+		const value = m[2];
+		switch (key) {
+			case "in": {
+				const category =
+					CATEGORY_ALIASES[value.toLowerCase()] ??
+					NOTE_CATEGORIES.find((c) => c === value.toLowerCase());
+				if (category) filters.categories = [...(filters.categories ?? []), category];
+				else invalid.push(token);
+				break;
+			}
+			case "project":
+				filters.project = value;
+				break;
+			case "tag":
+				filters.tags = [...(filters.tags ?? []), value.replace(/^#/, "")];
+				break;
+			case "since":
+			case "until":
+				if (dateBound(value, key === "until")) filters[key] = value;
+				else invalid.push(token);
+				break;
+			case "date":
+				if (value === "created" || value === "modified") filters.dateField = value;
+				else invalid.push(token);
+				break;
+			case "archived":
+				if (/^(yes|true|include)$/i.test(value)) filters.includeArchive = true;
+				else invalid.push(token);
+				break;
+		}
+	}
+
+	return { query: words.join(" "), filters, invalid };
+}
+
+/** Whether a note is the project's note, sits in its subfolder, or is tagged with it */
+export function inProject(path: string, frontmatter: Frontmatter, project: string): boolean {
+	const name = relative(paraDir("projects"), path).replace(/\.md$/, "").split(sep).join("/");
+	if (!name.startsWith("..")) {
+		const folder = project.split("/")[0];
+		if (name === project || name === folder || name.startsWith(`${folder}/`)) return true;
+		if (slugify(name) === slugify(project)) return true;
+	}
+	const tagged = asString(frontmatter.project);
+	return tagged !== undefined && [project, basename(project)].some((p) => slugify(p) === slugify(tagged));
+}
+
+/** The day a note was created: frontmatter, else the date in a daily note's name, else its mtime */
+function createdDay(path: string, frontmatter: Frontmatter): string {
+	const created = asString(frontmatter.created ?? frontmatter.captured ?? frontmatter.date);
+	if (created && /^\d{4}-\d{2}-\d{2}/.test(created)) return created.slice(0, 10);
+	const named = basename(path, ".md").match(/^\d{4}-\d{2}-\d{2}$/)?.[0];
+	return named ?? dayOf(statSync(path).mtime);
+}
+
+/** Whether a note passes the filters (archive excluded unless asked for) */
+export function matchesFilters(path: string, filters: SearchFilters): boolean {
+	const category = categoryOf(path);
+	const categories = filters.dailyOnly ? ["daily"] : filters.categories;
+	if (categories?.length) {
+		if (!category || !categories.includes(category)) return false;
+	} else if (category === "archive" && !filters.includeArchive) {
+		return false;
+	}
+
+	const needsNote = filters.project || filters.tags?.length || filters.since || filters.until;
+	if (!needsNote) return true;
+	if (!existsSync(path)) return false;
+
+	const { data } = parseNote(readFileSync(path, "utf-8"));
+	if (filters.project && !inProject(path, data, filters.project)) return false;
+	if (filters.tags?.length) {
+		const tags = asStringList(data.tags).map((t) => t.toLowerCase().replace(/^#/, ""));
+		if (!filters.tags.every((t) => tags.includes(t.toLowerCase().replace(/^#/, "")))) return false;
+	}
+	if (filters.since || filters.until) {
+		const day = filters.dateField === "modified" ? dayOf(statSync(path).mtime) : createdDay(path, data);
+		const since = filters.since ? dateBound(filters.since, false) : undefined;
+		const until = filters.until ? dateBound(filters.until, true) : undefined;
+		if ((since && day < since) || (until && day > until)) return false;
+	}
+	return true;
+}
+
+/** Filters in /search syntax, for display */
+export function describeFilters(filters: SearchFilters): string {
+	const parts: string[] = [];
+	for (const c of filters.dailyOnly ? ["daily"] : filters.categories ?? []) parts.push(`in:${c}`);
+	if (filters.project) parts.push(`project:${filters.project}`);
+	for (const t of filters.tags ?? []) parts.push(`tag:${t}`);
+	if (filters.since) parts.push(`since:${filters.since}`);
+	if (filters.until) parts.push(`until:${filters.until}`);
+	if (filters.dateField === "modified") parts.push("date:modified");
+	if (filters.includeArchive) parts.push("archived:yes");
+	return parts.join(" ");
+}
@@ -0,0 +1,222 @@
+/**
+ * Frontmatter
+ *
+ * Parses and serializes the YAML frontmatter block at the top of a note.
+ * Only the subset of YAML that notes actually use is understood: scalars,
+ * inline `[a, b]` lists and block `- item` lists. Anything else (nested maps,
+ * block scalars) is kept as raw text. Parsing is lenient so notes written by
+ * older versions (e.g. `title: Foo: bar`) still load; serializing quotes
+ * whatever needs quoting. Unchanged entries are re-emitted byte-for-byte, so
+ * parse → serialize round-trips existing notes losslessly.
+ */
+
+export type FrontmatterScalar = string | number | boolean | null;
+export type FrontmatterValue = FrontmatterScalar | FrontmatterScalar[];
+export type Frontmatter = Record<string, FrontmatterValue>;
+
+/** One line or group of lines inside the frontmatter block */
+interface Segment {
+	/** Key for entries; undefined for comments and blank lines */
+	key?: string;
+	/** Original text, without trailing newline */
+	raw: string;
+	/** Value as parsed, used to detect edits */
+	value?: FrontmatterValue;
+}
+
+export interface ParsedNote {
+	/** Frontmatter values; edit this and pass the note to serializeNote() */
+	data: Frontmatter;
+	/** Everything after the frontmatter block */
+	body: string;
+	hasFrontmatter: boolean;
+	/** Original layout, for lossless re-serialization */
+	segments: Segment[];
+	/** Original frontmatter block including fences, reused verbatim when nothing changed */
+	header?: string;
+}
+
+const FRONTMATTER_RE = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/** Split a note into frontmatter data and body */
+export function parseNote(content: string): ParsedNote {
+	const match = content.match(FRONTMATTER_RE);
+	if (!match) {
+		return { data: {}, body: content, hasFrontmatter: false, segments: [] };
+	}
+
+	const lines = match[1] ? match[1].split(/\r?\n/) : [];
+	const segments: Segment[] = [];
+	const data: Frontmatter = {};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const keyMatch = line.match(/^([A-Za-z0-9_][\w.-]*)\s*:(?:\s+(.*?))?\s*$/);
+		if (!keyMatch) {
+			segments.push({ raw: line });
+			continue;
+		}
+
+		const key = keyMatch[1];
+		const rest = keyMatch[2] ?? "";
+		const rawLines = [line];
+
+		// Gather indented continuation lines (block lists, nested maps)
+		while (i + 1 < lines.length && /^(\s+\S|-\s|-$)/.test(lines[i + 1]) && rest === "") {
+			rawLines.push(lines[++i]);
+		}
+
+		let value: FrontmatterValue;
+		if (rawLines.length > 1) {
+			const items = rawLines.slice(1);
+			value = items.every((l) => /^\s*-(\s|$)/.test(l))
+				? items.map((l) => parseScalar(l.replace(/^\s*-\s?/, "")))
+				: items.join("\n");
+		} else {
+			value = parseValue(rest);
+		}
+
+		segments.push({ key, raw: rawLines.join("\n"), value });
+		data[key] = value;
+	}
+
+	return { data, body: content.slice(match[0].length), hasFrontmatter: true, segments, header: match[0] };
+}
+
+/** Render a parsed (and possibly edited) note back to text */
+export function serializeNote(note: ParsedNote): string {
+	const keys = Object.keys(note.data);
+	if (!note.hasFrontmatter && keys.length === 0) return note.body;
+
+	const unchanged =
+		note.header !== undefined &&
+		keys.length === note.segments.filter((seg) => seg.key !== undefined).length &&
+		note.segments.every((seg) => seg.key === undefined || valuesEqual(note.data[seg.key], seg.value));
+	if (unchanged) return note.header + note.body;
+
+	const out: string[] = [];
+	const written = new Set<string>();
+
+	for (const seg of note.segments) {
+		if (seg.key === undefined) {
+			out.push(seg.raw);
+			continue;
+		}
+		if (!(seg.key in note.data) || written.has(seg.key)) continue;
+		const value = note.data[seg.key];
+		out.push(valuesEqual(value, seg.value) ? seg.raw : formatEntry(seg.key, value));
+		written.add(seg.key);
+	}
+
+	for (const key of keys) {
+		if (!written.has(key)) out.push(formatEntry(key, note.data[key]));
+	}
+
+	return `---\n${out.length > 0 ? out.join("\n") + "\n" : ""}---\n${note.body}`;
+}
+
+/** Build note text from frontmatter data and a markdown body */
+export function buildNote(data: Frontmatter, body: string): string {
+	return serializeNote({ data, body, hasFrontmatter: true, segments: [] });
+}
+
+/** Read a frontmatter value as a list of strings (accepts `a, b` and `[a, b]`) */
+export function asStringList(value: FrontmatterValue | undefined): string[] {
+	if (value === undefined || value === null || value === "") return [];
+	if (Array.isArray(value)) return value.filter((v) => v !== null && v !== "").map(String);
+	return String(value)
+		.split(",")
+		.map((s) => s.trim())
+		.filter(Boolean);
+}
+
+/** Read a frontmatter value as a string, if present */
+export function asString(value: FrontmatterValue | undefined): string | undefined {
+	if (value === undefined || value === null || Array.isArray(value)) return undefined;
+	return String(value);
+}
+
+// ─── Scalars ───────────────────────────────────────────────────────────
+
+function parseValue(text: string): FrontmatterValue {
+	if (text.startsWith("[") && text.endsWith("]")) {
+		const inner = text.slice(1, -1).trim();
+		return inner === "" ? [] : splitFlow(inner).map(parseScalar);
+	}
+	return parseScalar(text);
+}
+
+function parseScalar(text: string): FrontmatterScalar {
+	const t = text.trim();
+	if (t === "") return "";
+	if (t === "~" || t === "null") return null;
+	if (t === "true") return true;
+	if (t === "false") return false;
+	if (/^-?\d+(\.\d+)?$/.test(t) && !/^-?0\d/.test(t)) return Number(t);
+	if (t.length >= 2 && t.startsWith('"') && t.endsWith('"')) {
+		try {
+			return JSON.parse(t);
+		} catch {
+			return t.slice(1, -1);
+		}
+	}
+	if (t.length >= 2 && t.startsWith("'") && t.endsWith("'")) {
+		return t.slice(1, -1).replace(/''/g, "'");
+	}
+	return t;
+}
+
+/** Split a flow sequence body on commas that aren't inside quotes */
+function splitFlow(inner: string): string[] {
+	const parts: string[] = [];
+	let current = "";
+	let quote: string | undefined;
+	for (const ch of inner) {
+		if (quote) {
+			if (ch === quote) quote = undefined;
+			current += ch;
+		} else if (ch === '"' || ch === "'") {
+			quote = ch;
+			current += ch;
+		} else if (ch === ",") {
+			parts.push(current);
+			current = "";
+		} else {
+			current += ch;
+		}
+	}
+	parts.push(current);
+	return parts.map((p) => p.trim());
+}
+
+function formatEntry(key: string, value: FrontmatterValue): string {
+	return `${key}: ${formatValue(value)}`;
+}
+
+function formatValue(value: FrontmatterValue): string {
+	if (Array.isArray(value)) return `[${value.map((v) => formatScalar(v, true)).join(", ")}]`;
+	return formatScalar(value, false);
+}
+
+function formatScalar(value: FrontmatterScalar, inFlow: boolean): string {
+	if (value === null) return "null";
+	if (typeof value === "boolean" || typeof value === "number") return String(value);
+	return needsQuotes(value, inFlow) ? JSON.stringify(value) : value;
+}
+
+function needsQuotes(s: string, inFlow: boolean): boolean {
+	if (s === "" || s !== s.trim()) return true;
+	if (/^(true|false|null|~|yes|no|on|off)$/i.test(s)) return true;
+	if (/^-?\d+(\.\d+)?$/.test(s)) return true;
+	if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(s)) return true;
+	if (/:(\s|$)|\s#|[\n\r\t]/.test(s)) return true;
+	if (inFlow && /[,[\]{}]/.test(s)) return true;
+	return false;
+}
+
+function valuesEqual(a: FrontmatterValue | undefined, b: FrontmatterValue | undefined): boolean {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((v, i) => v === b[i]);
+	}
+	return a === b;
+}
@@ -10,32 +10,61 @@
  *   before_agent_start  → Search knowledge base for relevant context
  *   agent_end           → Light extraction of key facts to daily note
  *   session_before_compact → Deep extraction before conversation is compacted
- *   session_shutdown    → Final consolidation, git commit, qmd re-index
+ *   session_shutdown    → Deep extraction of anything not yet extracted, git commit, qmd re-index
  *
- * Commands: /brain, /capture, /daily, /search, /review, /priorities
- * Tools: second_brain_search, second_brain_capture, second_brain_daily
+ * Commands: /brain, /brain vault, /brain rules, /capture, /extract, /daily, /search, /review, /priorities
+ * Tools: second_brain_search, second_brain_capture, second_brain_update, second_brain_daily, second_brain_links
  * Shortcut: Ctrl+Shift+B → toggle brain dashboard
  */
 
 import { complete } from "@mariozechner/pi-ai";
-import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import { convertToLlm, serializeConversation, DynamicBorder } from "@mariozechner/pi-coding-agent";
-import { Container, Key, matchesKey, Text, truncateToWidth } from "@mariozechner/pi-tui";
+import type { Api, Model } from "@mariozechner/pi-ai";
+import type {
+	ExtensionAPI,
+	ExtensionContext,
+	SessionEntry as PiSessionEntry,
+	SessionMessageEntry,
+} from "@mariozechner/pi-coding-agent";
+import { convertToLlm, copyToClipboard, serializeConversation, DynamicBorder } from "@mariozechner/pi-coding-agent";
+import { Container, Key, matchesKey, Text, truncateToWidth, type TUI } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
 import { StringEnum } from "@mariozechner/pi-ai";
-import { readFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
 
 import {
-	BRAIN_DIR,
+	categoryOf,
 	ensureDirs,
+	getBrainDir,
 	getCounts,
 	listNotes,
-	PARA_DIRS,
+	paraDir,
+	PARA_FOLDERS,
 	PARA_ICONS,
+	readNoteInfo,
+	setBrainDir,
 	slugify,
-	detectProject,
+	findNoteSlot,
+	notifyNoteChanged,
+	writeNote,
+	type NoteInfo,
 	type ParaCategory,
 } from "./para.js";
+import {
+	contextSettings,
+	DEFAULT_CARRY_WARNING_DAYS,
+	DEFAULT_STALE_PROJECT_DAYS,
+	expandPath,
+	extractionSettings,
+	listVaults,
+	loadConfig,
+	LOG_PATH,
+	resolveVault,
+	type ResolvedVault,
+} from "./config.js";
+import { asString, asStringList, parseNote, serializeNote } from "./frontmatter.js";
+import { appendToSectionContent, readSection, replaceSectionContent } from "./sections.js";
 import {
 	ensureDailyNote,
 	appendToLog,
@@ -43,89 +72,120 @@ import {
 	getPriorities,
 	listRecentDailies,
 	appendToSection,
+	writePriorities,
+	formatPriority,
+	carriedDays,
+	type Priority,
 } from "./daily.js";
 import {
 	lightExtract,
 	writeToDaily,
 	buildDeepExtractionPrompt,
 	parseDeepExtraction,
+	buildRepairPrompt,
+	logExtractionFailure,
 	writeDeepExtraction,
+	unextractedEntries,
+	extractionTokensUsed,
+	chunkEntries,
+	clampToTokens,
+	estimateTokens,
+	mergeExtractions,
+	EXTRACTION_ENTRY,
+	type DeepExtraction,
+	type ExtractionMarker,
+	type ExtractionTrigger,
 } from "./extractor.js";
 import {
 	DashboardComponent,
 	type DashboardData,
+	NoteViewerComponent,
+	type NoteAction,
 	SearchResultsComponent,
+	TaskListComponent,
 	type SearchResult,
 	buildPriorityWidget,
 	buildStatusLine,
+	carryBadge,
 } from "./ui.js";
-import { writeFileSync, existsSync, mkdirSync } from "node:fs";
-import { join } from "node:path";
-
-// ─── Helper: run qmd search ────────────────────────────────────────────
-
-async function qmdSearch(pi: ExtensionAPI, query: string, maxResults = 5): Promise<SearchResult[]> {
-	const { stdout, code } = await pi.exec("qmd", ["search", query, "-n", String(maxResults), "--json"], {
-		timeout: 10000,
-	});
-	if (code !== 0 || !stdout.trim()) return [];
-
-	try {
-		const parsed = JSON.parse(stdout);
-		const results: SearchResult[] = [];
-		const items = Array.isArray(parsed) ? parsed : parsed.results ?? [];
-		for (const item of items) {
-			results.push({
-				path: item.path ?? item.document ?? "",
-				title: item.title ?? "",
-				score: item.score != null ? `${Math.round(Number(item.score) * 100)}%` : "?",
-				snippet: item.snippet ?? item.text ?? item.content ?? "",
-			});
-		}
-		return results;
-	} catch {
-		// Fallback: parse text output
-		return parseTextSearchResults(stdout);
-	}
-}
-
-function parseTextSearchResults(output: string): SearchResult[] {
-	const results: SearchResult[] = [];
-	const blocks = output.split("\n\n");
-
-	for (const block of blocks) {
-		const lines = block.trim().split("\n");
-		if (lines.length === 0) continue;
-
-		const pathLine = lines[0] ?? "";
-		const pathMatch = pathLine.match(/^(qmd:\/\/[^\s]+)/);
-		if (!pathMatch) continue;
-
-		const titleLine = lines.find((l) => l.startsWith("Title:"));
-		const scoreLine = lines.find((l) => l.startsWith("Score:"));
-		const snippetLines = lines.filter(
-			(l) =>
-				!l.startsWith("Title:") &&
-				!l.startsWith("Score:") &&
-				!l.startsWith("Context:") &&
-				l !== pathLine &&
-				!l.startsWith("@@")
-		);
-
-		results.push({
-			path: pathMatch[1],
-			title: titleLine?.replace("Title:", "").trim() ?? "",
-			score: scoreLine?.replace("Score:", "").trim() ?? "?",
-			snippet: snippetLines.join("\n").trim(),
-		});
-	}
-
-	return results;
-}
-
-async function qmdUpdate(pi: ExtensionAPI): Promise<void> {
-	await pi.exec("qmd", ["update"], { timeout: 30000 });
-}
+import {
+	qmdUpdate,
+	searchBrain,
+	SEARCH_MODES,
+	type SearchMode,
+	type SearchOutcome,
+} from "./search.js";
+import { dateBound, describeFilters, hasFilters, NOTE_CATEGORIES, parseSearchArgs } from "./filters.js";
+import { ExtractionLedger, LEDGER_ENTRY } from "./ledger.js";
+import { setDateSettings, today } from "./dates.js";
+import {
+	compileRules,
+	DEFAULT_RULES,
+	EXTRACTION_CATEGORIES,
+	getRulesPath,
+	loadRules,
+	type LoadedRules,
+} from "./rules.js";
+import { clearProjectCache, detectProject } from "./detect.js";
+import {
+	CONTEXT_MESSAGE,
+	CONTEXT_TOGGLE_ENTRY,
+	contextEnabled,
+	formatNoteMessage,
+	injectedPaths,
+	NOTE_MESSAGE,
+	pruneContextMessages,
+	retrieveContext,
+	type ContextDetails,
+	type NoteMessageDetails,
+} from "./context.js";
+import { findLinkNode, getLinkGraph, getNeighborhood, type LinkNode } from "./links.js";
+import {
+	archiveProject,
+	daysIdle,
+	listArchivedProjects,
+	listProjects,
+	restoreProject,
+	setProjectStatus,
+	staleProjects,
+	type ProjectInfo,
+	type ProjectStatus,
+} from "./projects.js";
+import {
+	deleteNote,
+	isSnoozed,
+	listSubfolders,
+	mergeNote,
+	moveNote,
+	retitleNote,
+	snoozeNote,
+	snoozeUntil,
+	SNOOZE_OPTIONS,
+	undoLast,
+	type OrganizeResult,
+} from "./organize.js";
+import {
+	buildNarrativePrompt,
+	collectDigests,
+	ensurePastRollups,
+	parsePeriod,
+	periodOf,
+	writeRollup,
+	type DayDigest,
+	type RollupPeriod,
+} from "./rollup.js";
+import {
+	dueStatus,
+	filterTasks,
+	findTask,
+	getTasks,
+	parseTaskFilter,
+	setTaskDone,
+	TASK_VIEWS,
+	type Task,
+} from "./tasks.js";
+import { CATEGORY_TEMPLATES, loadTemplate, renderNote, templatePrompts, templateVars } from "./templates.js";
+import { basename, dirname, join, relative } from "node:path";
 
 // ─── Conversation serializer ───────────────────────────────────────────
 
@@ -161,20 +221,89 @@ function buildConversationText(entries: SessionEntry[]): string {
 	return parts.join("\n\n");
 }
 
+type LinksDetails = { note?: string; outbound?: number; inbound?: number; broken: number };
+type UpdateDetails = { path?: string; action?: string; revision?: string; error?: boolean };
+type TasksDetails = { count: number; overdue?: number; action?: string; error?: boolean };
+
+/** One task per line for the agent: id, checkbox, text and metadata */
+function formatTaskLine(task: Task): string {
+	const meta = [
+		task.due ? `due:${task.due}${dueStatus(task) === "overdue" ? " (OVERDUE)" : ""}` : "",
+		task.priority ? `!${task.priority}` : "",
+		task.project ? `+${task.project}` : "",
+		...task.tags.map((t) => `#${t}`),
+	].filter(Boolean);
+	return `- [${task.done ? "x" : " "}] ${task.text}${meta.length > 0 ? ` ${meta.join(" ")}` : ""} — ${task.note} (id: ${task.id})`;
+}
+
+/** Short content hash the agent can pass back to detect concurrent edits */
+function noteRevision(content: string): string {
+	return createHash("sha1").update(content).digest("hex").slice(0, 12);
+}
+
 // ─── Main Extension ────────────────────────────────────────────────────
 
 export default function secondBrain(pi: ExtensionAPI): void {
-	// Ensure directory structure exists
-	ensureDirs();
-
 	let reindexQueued = false;
 
+	// Vault chosen with /brain vault; wins over cwd-based resolution for this process
+	let vaultOverride: string | undefined;
+
+	// Priorities carried over this many days get flagged
+	let carryWarningDays = DEFAULT_CARRY_WARNING_DAYS;
+
+	/** Resolve the vault for cwd, point all paths and dates at it and ensure its structure exists */
+	function activateVault(cwd: string): ResolvedVault {
+		const config = loadConfig(cwd);
+		const vault = resolveVault(cwd, vaultOverride, config);
+		setBrainDir(vault.path);
+		setDateSettings({ timezone: config.timezone, dayStartHour: config.dayStartHour });
+		carryWarningDays = config.carryWarningDays ?? DEFAULT_CARRY_WARNING_DAYS;
+		clearProjectCache();
+		ensureDirs();
+		return vault;
+	}
+
+	let activeVault = activateVault(process.cwd());
+
+	// What this session has already extracted; rebuilt from session entries
+	let ledger = new ExtractionLedger();
+
+	function loadLedger(ctx: ExtensionContext): void {
+		ledger = ExtractionLedger.fromEntries(ctx.sessionManager.getEntries());
+	}
+
+	/** Persist ledger additions as a session entry */
+	function saveLedger(): void {
+		const delta = ledger.flush();
+		if (delta) pi.appendEntry(LEDGER_ENTRY, delta);
+	}
+
 	// ─── Session Start ──────────────────────────────────────────────
 
 	pi.on("session_start", async (_event, ctx) => {
+		activeVault = activateVault(ctx.cwd);
+		loadLedger(ctx);
+
 		// Ensure today's daily note exists (with priority rollover)
 		ensureDailyNote();
 
+		// Roll up the week and month that just ended
+		if (ensurePastRollups().length > 0) reindexQueued = true;
+
+		// Remind about overdue tasks
+		const overdue = getTasks().filter((t) => dueStatus(t) === "overdue");
+		if (overdue.length > 0 && ctx.hasUI) {
+			const preview = overdue
+				.slice(0, 3)
+				.map((t) => `• ${t.text} (due ${t.due})`)
+				.join("\n");
+			ctx.ui.notify(
+				`⏰ ${overdue.length} overdue task(s)\n${preview}${overdue.length > 3 ? "\n…" : ""}\n/tasks overdue to review`,
+				"warning"
+			);
+		}
+
 		// Update widgets
 		updateWidgets(ctx);
 
@@ -189,8 +318,15 @@ export default function secondBrain(pi: ExtensionAPI): void {
 	});
 
 	// Also update widgets on session switch/fork/tree
-	pi.on("session_switch", async (_event, ctx) => updateWidgets(ctx));
-	pi.on("session_fork", async (_event, ctx) => updateWidgets(ctx));
+	pi.on("session_switch", async (_event, ctx) => {
+		activeVault = activateVault(ctx.cwd);
+		loadLedger(ctx);
+		updateWidgets(ctx);
+	});
+	pi.on("session_fork", async (_event, ctx) => {
+		loadLedger(ctx);
+		updateWidgets(ctx);
+	});
 	pi.on("session_tree", async (_event, ctx) => updateWidgets(ctx));
 
 	// ─── Before Agent Start: Inject Knowledge Context ───────────────
@@ -199,28 +335,25 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		const prompt = event.prompt;
 		if (!prompt || prompt.startsWith("/")) return; // Skip commands
 
-		// Search knowledge base for relevant context
-		const results = await qmdSearch(pi, prompt, 3);
+		const branch = ctx.sessionManager.getBranch();
+		if (!contextEnabled(branch)) return;
 
-		if (results.length === 0) return;
-
-		// Build context injection
-		const contextLines: string[] = [];
-		contextLines.push("[Second Brain — Relevant Knowledge]");
-
-		const project = detectProject(ctx.cwd);
-		if (project) {
-			contextLines.push(`Active project: ${project}`);
-		}
-
-		for (const r of results) {
-			if (r.title) contextLines.push(`• ${r.title} (${r.score}): ${r.snippet.slice(0, 150).trim()}`);
-		}
-
-		contextLines.push("[End Second Brain Context]");
+		// Rank search hits and fill the budget with whole sections
+		const injection = await retrieveContext(pi, prompt, {
+			...contextSettings(loadConfig(ctx.cwd)),
+			collection: activeVault.collection,
+			project: detectProject(ctx.cwd),
+			skip: injectedPaths(branch),
+		});
+		if (!injection) return;
 
 		return {
-			systemPrompt: event.systemPrompt + "\n\n" + contextLines.join("\n"),
+			message: {
+				customType: CONTEXT_MESSAGE,
+				content: injection.text,
+				display: true,
+				details: injection.details,
+			},
 		};
 	});
 
@@ -228,82 +361,189 @@ export default function secondBrain(pi: ExtensionAPI): void {
 
 	pi.on("agent_end", async (event, ctx) => {
 		try {
-			const entries = event.messages as unknown as SessionEntry[];
-			if (!entries || entries.length === 0) return;
+			const messages = event.messages;
+			if (!messages || messages.length === 0) return;
 
-			const knowledge = lightExtract(entries, ctx.cwd);
-			const hasContent =
-				knowledge.decisions.length > 0 ||
-				knowledge.solutions.length > 0 ||
-				knowledge.learnings.length > 0;
+			const knowledge = lightExtract(messages, ctx.cwd, loadRules(), ledger);
+			for (const message of messages) ledger.markMessage(message);
 
-			if (hasContent) {
-				writeToDaily(knowledge);
-				reindexQueued = true;
-			}
+			if (writeToDaily(knowledge, ledger)) reindexQueued = true;
+			saveLedger();
 		} catch {
 			// Silently fail — don't disrupt the user's work
 		}
 	});
 
-	// ─── Session Before Compact: Deep Extraction ────────────────────
-
-	pi.on("session_before_compact", async (event, ctx) => {
-		try {
-			const { preparation } = event;
-			const { messagesToSummarize, turnPrefixMessages } = preparation;
-
-			const allMessages = [...messagesToSummarize, ...turnPrefixMessages];
-			if (allMessages.length < 3) return; // Not enough to extract from
+	// ─── Deep Extraction ────────────────────────────────────────────
+
+	type DeepExtractionOutcome =
+		| { ok: true; extraction: DeepExtraction; chunks: number; partial: boolean }
+		| { ok: false; reason: string; logged?: boolean };
+
+	/** The configured extraction model ("provider/id"), else the session model */
+	function extractionModel(ctx: ExtensionContext, configured?: string): Model<Api> | undefined {
+		if (configured) {
+			const slash = configured.indexOf("/");
+			const model =
+				slash > 0
+					? ctx.modelRegistry.find(configured.slice(0, slash), configured.slice(slash + 1))
+					: ctx.modelRegistry.getAll().find((m) => m.id === configured);
+			if (model) return model;
+			logExtractionFailure(`extraction model "${configured}" not found, using the session model`);
+		}
+		return ctx.model;
+	}
 
-			const conversationText = serializeConversation(convertToLlm(allMessages));
-			if (conversationText.length < 200) return;
+	/**
+	 * Run LLM extraction over session entries and write the results to the vault.
+	 * Long conversations are split into chunks that are extracted one by one
+	 * (map) and then merged and deduplicated (reduce), until the session's token
+	 * budget runs out. A marker entry records how far extraction got and what it
+	 * spent, so later passes (compaction, shutdown, /extract) skip those entries.
+	 */
+	async function deepExtract(
+		ctx: ExtensionContext,
+		entries: PiSessionEntry[],
+		trigger: ExtractionTrigger,
+		signal?: AbortSignal
+	): Promise<DeepExtractionOutcome> {
+		const messageEntries = entries.filter((e): e is SessionMessageEntry => e.type === "message");
+		if (messageEntries.length < 3) return { ok: false, reason: "Not enough new conversation to extract from" };
+
+		const serialize = (chunk: SessionMessageEntry[]) =>
+			serializeConversation(convertToLlm(chunk.map((e) => e.message)));
+		if (serialize(messageEntries).length < 200) {
+			return { ok: false, reason: "Not enough new conversation to extract from" };
+		}
 
-			// Use current model for deep extraction
-			const model = ctx.model;
-			if (!model) return;
+		const settings = extractionSettings(loadConfig(ctx.cwd));
+		const model = extractionModel(ctx, settings.model);
+		if (!model) return { ok: false, reason: "No model selected" };
 
-			const apiKey = await ctx.modelRegistry.getApiKey(model);
-			if (!apiKey) return;
+		const apiKey = await ctx.modelRegistry.getApiKey(model);
+		if (!apiKey) return { ok: false, reason: `No API key for ${model.id}` };
 
-			const extractionPrompt = buildDeepExtractionPrompt(conversationText, ctx.cwd);
+		let remaining = settings.sessionBudget - extractionTokensUsed(ctx.sessionManager.getEntries());
+		let spent = 0;
 
+		const ask = async (prompt: string): Promise<string> => {
 			const response = await complete(
 				model,
 				{
 					messages: [
 						{
 							role: "user" as const,
-							content: [{ type: "text" as const, text: extractionPrompt }],
+							content: [{ type: "text" as const, text: prompt }],
 							timestamp: Date.now(),
 						},
 					],
 				},
-				{ apiKey, maxTokens: 4096, signal: event.signal }
+				{ apiKey, maxTokens: settings.maxTokens, signal }
 			);
+			const used = response.usage.input + response.usage.output || estimateTokens(prompt) + settings.maxTokens;
+			spent += used;
+			remaining -= used;
+			if (response.stopReason === "error") throw new Error(response.errorMessage ?? "Model request failed");
 
-			const responseText = response.content
+			return response.content
 				.filter((c): c is { type: "text"; text: string } => c.type === "text")
 				.map((c) => c.text)
 				.join("\n");
+		};
 
-			const extraction = parseDeepExtraction(responseText);
-			if (extraction) {
-				writeDeepExtraction(extraction, ctx.cwd);
-				reindexQueued = true;
+		const chunks = chunkEntries(messageEntries, settings.chunkTokens, (e) => estimateTokens(serialize([e])));
+		const results: DeepExtraction[] = [];
+		let lastExtracted: string | undefined;
+		let stopReason: string | undefined;
+
+		for (let i = 0; i < chunks.length; i++) {
+			const conversationText = clampToTokens(serialize(chunks[i]), settings.chunkTokens);
+			const prompt = buildDeepExtractionPrompt(conversationText, ctx.cwd, { index: i + 1, total: chunks.length });
+			if (estimateTokens(prompt) + settings.maxTokens > remaining) {
+				stopReason = "Extraction token budget for this session is used up";
+				break;
+			}
 
-				if (ctx.hasUI) {
-					ctx.ui.notify("🧠 Knowledge captured before compaction", "info");
+			try {
+				let responseText = await ask(prompt);
+				let parsed = parseDeepExtraction(responseText);
+
+				// One retry, telling the model exactly what was wrong
+				if (!parsed.ok) {
+					logExtractionFailure(`invalid response on ${trigger}, retrying`, parsed.errors.join("\n"));
+					responseText = await ask(buildRepairPrompt(responseText, parsed.errors));
+					parsed = parseDeepExtraction(responseText);
+				}
+
+				if (!parsed.ok) {
+					logExtractionFailure(
+						`invalid response on ${trigger} after retry (chunk ${i + 1}/${chunks.length})`,
+						[...parsed.errors, "--- response ---", responseText.slice(0, 2000)].join("\n")
+					);
+					stopReason = `Model returned invalid extraction (details in ${LOG_PATH})`;
+					break;
 				}
+
+				results.push(parsed.extraction);
+				lastExtracted = chunks[i][chunks[i].length - 1].id;
+			} catch (err) {
+				// Keep what earlier chunks produced
+				logExtractionFailure(`${trigger}: chunk ${i + 1}/${chunks.length}: ${(err as Error).message}`);
+				stopReason = `${(err as Error).message} (details in ${LOG_PATH})`;
+				break;
 			}
-		} catch {
+		}
+
+		const finished = results.length === chunks.length;
+		const marker: ExtractionMarker = {
+			// A full pass covers trailing non-message entries too
+			upTo: finished ? entries[entries.length - 1].id : lastExtracted,
+			trigger,
+			at: new Date().toISOString(),
+			tokens: spent,
+		};
+		if (marker.upTo || spent > 0) pi.appendEntry(EXTRACTION_ENTRY, marker);
+
+		if (results.length === 0) {
+			return { ok: false, reason: stopReason ?? "Nothing extracted", logged: stopReason?.includes(LOG_PATH) };
+		}
+
+		const extraction = mergeExtractions(results);
+		writeDeepExtraction(extraction, ctx.cwd, ledger);
+		saveLedger();
+		reindexQueued = true;
+
+		return { ok: true, extraction, chunks: results.length, partial: !finished };
+	}
+
+	// ─── Session Before Compact: Deep Extraction ────────────────────
+
+	pi.on("session_before_compact", async (event, ctx) => {
+		try {
+			// Entries before firstKeptEntryId are about to be summarized away
+			const pending = unextractedEntries(event.branchEntries, event.preparation.firstKeptEntryId);
+			const outcome = await deepExtract(ctx, pending, "compact", event.signal);
+
+			if (!ctx.hasUI) return;
+			if (outcome.ok) ctx.ui.notify("🧠 Knowledge captured before compaction", "info");
+			else if (outcome.logged) ctx.ui.notify(`🧠 Extraction before compaction failed: ${outcome.reason}`, "warning");
+		} catch (err) {
 			// Don't block compaction if extraction fails
+			logExtractionFailure(`compact: ${(err as Error).message}`);
 		}
 	});
 
 	// ─── Session Shutdown: Final Consolidation ──────────────────────
 
 	pi.on("session_shutdown", async (_event, ctx) => {
+		try {
+			// Short sessions never compact; extract whatever hasn't been yet
+			await deepExtract(ctx, unextractedEntries(ctx.sessionManager.getBranch()), "shutdown");
+		} catch (err) {
+			// Extraction is best effort; still log, index and commit below
+			logExtractionFailure(`shutdown: ${(err as Error).message}`);
+		}
+
 		try {
 			appendToLog("Session ended.");
 
@@ -313,14 +553,15 @@ export default function secondBrain(pi: ExtensionAPI): void {
 			}
 
 			// Git commit
-			const { code: statusCode, stdout: status } = await pi.exec("git", ["-C", BRAIN_DIR, "status", "--porcelain"]);
+			const brainDir = getBrainDir();
+			const { code: statusCode, stdout: status } = await pi.exec("git", ["-C", brainDir, "status", "--porcelain"]);
 			if (statusCode === 0 && status.trim().length > 0) {
-				await pi.exec("git", ["-C", BRAIN_DIR, "add", "-A"]);
-				const date = new Date().toISOString().split("T")[0];
+				await pi.exec("git", ["-C", brainDir, "add", "-A"]);
+				const date = today();
 				const project = detectProject(ctx.cwd) ?? "general";
 				await pi.exec("git", [
 					"-C",
-					BRAIN_DIR,
+					brainDir,
 					"commit",
 					"-m",
 					`[second-brain] ${date} — ${project} session`,
@@ -333,25 +574,10 @@ export default function secondBrain(pi: ExtensionAPI): void {
 
 	// ─── Context Event: Prune Stale Brain Context ───────────────────
 
-	pi.on("context", async (event) => {
-		// Remove second-brain context messages from older turns to avoid bloat
-		// Keep only the most recent one
-		const messages = event.messages;
-		let lastBrainIdx = -1;
-
-		for (let i = messages.length - 1; i >= 0; i--) {
-			const msg = messages[i] as any;
-			if (msg.customType === "second-brain-context") {
-				if (lastBrainIdx === -1) {
-					lastBrainIdx = i;
-				} else {
-					messages.splice(i, 1);
-					lastBrainIdx--;
-				}
-			}
-		}
-
-		return { messages };
+	pi.on("context", async (event, ctx) => {
+		// Keep only the latest context message (and any whose notes it reused) to avoid bloat
+		const enabled = contextEnabled(ctx.sessionManager.getBranch());
+		return { messages: pruneContextMessages(event.messages, !enabled) };
 	});
 
 	// ─── Custom Tools ───────────────────────────────────────────────
@@ -364,36 +590,77 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		parameters: Type.Object({
 			query: Type.String({ description: "Search query" }),
 			maxResults: Type.Optional(Type.Number({ description: "Max results (default 5)" })),
+			mode: Type.Optional(
+				StringEnum(SEARCH_MODES, {
+					description:
+						"keyword: exact terms (default); semantic: meaning, for questions and paraphrases; hybrid: both, reranked (slowest, best)",
+				})
+			),
+			categories: Type.Optional(
+				Type.Array(StringEnum(NOTE_CATEGORIES), {
+					description: "Only notes in these folders",
+				})
+			),
+			project: Type.Optional(Type.String({ description: "Only notes belonging to this project" })),
+			tags: Type.Optional(Type.Array(Type.String(), { description: "Only notes with all of these tags" })),
+			dailyOnly: Type.Optional(Type.Boolean({ description: "Only daily notes" })),
+			since: Type.Optional(Type.String({ description: "Earliest date, YYYY-MM-DD (or YYYY-MM, YYYY)" })),
+			until: Type.Optional(Type.String({ description: "Latest date, YYYY-MM-DD (or YYYY-MM, YYYY)" })),
+			dateField: Type.Optional(
+				StringEnum(["created", "modified"] as const, { description: "Date since/until apply to (default created)" })
+			),
+			includeArchive: Type.Optional(Type.Boolean({ description: "Search archived notes too (default false)" })),
 		}),
 		async execute(_toolCallId, params) {
-			const results = await qmdSearch(pi, params.query, params.maxResults ?? 5);
+			const { query, maxResults, mode = "keyword", ...filters } = params;
+			for (const [name, value] of [["since", filters.since], ["until", filters.until]] as const) {
+				if (value && !dateBound(value, name === "until")) {
+					return {
+						content: [{ type: "text", text: `Invalid ${name} date "${value}": use YYYY-MM-DD, YYYY-MM or YYYY.` }],
+						details: { results: [], mode, engine: "local" as const },
+					};
+				}
+			}
+			const { results, engine } = await searchBrain(pi, query, {
+				maxResults: maxResults ?? 5,
+				collection: activeVault.collection,
+				mode,
+				filters,
+			});
+			const fallback = engine !== mode ? ` (${mode} search unavailable, used ${engine} search)` : "";
 			if (results.length === 0) {
 				return {
-					content: [{ type: "text", text: "No results found in second brain." }],
-					details: { results: [] },
+					content: [{ type: "text", text: `No results found in second brain.${fallback}` }],
+					details: { results: [], mode, engine },
 				};
 			}
 
 			const text = results
-				.map((r) => `**${r.title}** (${r.score})\n${r.path}\n${r.snippet.slice(0, 200)}`)
+				.map((r) => `**${r.title}** (${r.score}${r.category ? `, ${r.category}` : ""})\n${r.path}\n${r.snippet.slice(0, 200)}`)
 				.join("\n\n");
 
 			return {
-				content: [{ type: "text", text }],
-				details: { results },
+				content: [{ type: "text", text: fallback ? `${text}\n\n${fallback.trim()}` : text }],
+				details: { results, mode, engine },
 			};
 		},
 		renderCall(args, theme) {
+			const mode = args.mode && args.mode !== "keyword" ? theme.fg("dim", ` [${args.mode}]`) : "";
 			return new Text(
-				theme.fg("toolTitle", theme.bold("brain search ")) + theme.fg("muted", `"${args.query}"`),
+				theme.fg("toolTitle", theme.bold("brain search ")) + theme.fg("muted", `"${args.query}"`) + mode,
 				0,
 				0
 			);
 		},
 		renderResult(result, { expanded }, theme) {
-			const details = result.details as { results: SearchResult[] } | undefined;
+			const details = result.details as
+				| { results: SearchResult[]; mode?: SearchMode; engine?: SearchOutcome["engine"] }
+				| undefined;
 			const count = details?.results?.length ?? 0;
 			let text = theme.fg("accent", "🧠 ") + theme.fg("muted", `${count} result(s)`);
+			if (details?.engine && details.engine !== details.mode) {
+				text += theme.fg("dim", ` via ${details.engine} search`);
+			}
 
 			if (expanded && details?.results) {
 				for (const r of details.results) {
@@ -419,18 +686,24 @@ export default function secondBrain(pi: ExtensionAPI): void {
 				StringEnum(["inbox", "projects", "areas", "resources"] as const)
 			),
 		}),
-		async execute(_toolCallId, params) {
-			const category = (params.category ?? "inbox") as ParaCategory;
-			const dir = PARA_DIRS[category];
-			const slug = slugify(params.title);
-			const filePath = join(dir, `${slug}.md`);
-
-			mkdirSync(dir, { recursive: true });
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const category = (params.category ?? "inbox") as Exclude<ParaCategory, "archive">;
+			const slot = findNoteSlot(paraDir(category), params.title);
 
-			const date = new Date().toISOString().split("T")[0];
-			const fileContent = `---\ntitle: ${params.title}\ncreated: ${date}\n---\n# ${params.title}\n\n${params.content}\n`;
+			if (slot.existing) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `A note titled "${params.title}" already exists at ${slot.existing}. Use second_brain_update to add to it instead of overwriting.`,
+						},
+					],
+					details: { category, title: params.title, path: slot.existing },
+				};
+			}
 
-			writeFileSync(filePath, fileContent, "utf-8");
+			const filePath = slot.path;
+			writeNote(filePath, renderNote(category, templateVars(params.title, ctx.cwd, { content: params.content })));
 			reindexQueued = true;
 
 			return {
@@ -512,11 +785,365 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		},
 	});
 
+	pi.registerTool({
+		name: "second_brain_update",
+		label: "Brain Update",
+		description:
+			"Update an existing second brain note in place. Actions: read (returns content and revision), append_section (add to the end of a ## section, creating it if missing), replace_section (requires the revision from read), set_frontmatter (add fields; existing values are kept unless overwrite is true), add_checklist (add a '- [ ]' item, default section Progress). Pass revision to refuse the edit if the note changed since you read it.",
+		parameters: Type.Object({
+			note: Type.String({ description: "Note name, title or path" }),
+			action: StringEnum(["read", "append_section", "replace_section", "set_frontmatter", "add_checklist"] as const),
+			section: Type.Optional(Type.String({ description: "Section heading, without the ## prefix" })),
+			content: Type.Optional(Type.String({ description: "Markdown to append/replace, or the checklist item text" })),
+			fields: Type.Optional(
+				Type.Record(Type.String(), Type.Union([Type.String(), Type.Array(Type.String())]), {
+					description: "Frontmatter fields for set_frontmatter",
+				})
+			),
+			overwrite: Type.Optional(Type.Boolean({ description: "Allow set_frontmatter to change existing values" })),
+			revision: Type.Optional(Type.String({ description: "Revision from a previous read; edit is refused if the note changed" })),
+		}),
+		async execute(_toolCallId, params) {
+			const fail = (text: string) => ({
+				content: [{ type: "text" as const, text }],
+				details: { error: true } as UpdateDetails,
+			});
+
+			const node = findLinkNode(getLinkGraph(), params.note);
+			if (!node) return fail(`No note found for "${params.note}". Use second_brain_capture to create it.`);
+
+			const current = readFileSync(node.path, "utf-8");
+			const currentRevision = noteRevision(current);
+
+			if (params.action === "read") {
+				return {
+					content: [{ type: "text", text: `Revision: ${currentRevision}\nPath: ${node.path}\n\n${current}` }],
+					details: { path: node.path, action: "read", revision: currentRevision } as UpdateDetails,
+				};
+			}
+
+			if (params.revision && params.revision !== currentRevision) {
+				return fail(
+					`Conflict: "${node.title}" changed since revision ${params.revision} (now ${currentRevision}). Read it again and retry.`
+				);
+			}
+
+			let updated = current;
+			let summary: string;
+
+			switch (params.action) {
+				case "append_section": {
+					if (!params.section || !params.content?.trim()) return fail("append_section needs section and content.");
+					if (readSection(current, params.section)?.includes(params.content.trim())) {
+						summary = `Already present in ## ${params.section}; nothing to do.`;
+						break;
+					}
+					updated = appendToSectionContent(current, params.section, params.content.trim());
+					summary = `Appended to ## ${params.section}.`;
+					break;
+				}
+				case "replace_section": {
+					if (!params.section || params.content === undefined) return fail("replace_section needs section and content.");
+					const existing = readSection(current, params.section);
+					if (existing && !params.revision) {
+						return fail(
+							`## ${params.section} already has content. Read the note first and pass its revision to replace it.`
+						);
+					}
+					updated = replaceSectionContent(current, params.section, params.content);
+					summary = `Replaced ## ${params.section}.`;
+					break;
+				}
+				case "set_frontmatter": {
+					if (!params.fields || Object.keys(params.fields).length === 0) return fail("set_frontmatter needs fields.");
+					const note = parseNote(current);
+					const conflicts: string[] = [];
+					const changed: string[] = [];
+					for (const [key, value] of Object.entries(params.fields)) {
+						const existing = note.data[key];
+						const same = JSON.stringify(existing) === JSON.stringify(value);
+						if (same) continue;
+						if (existing !== undefined && existing !== "" && !params.overwrite) {
+							// Lists merge; scalars conflict
+							if (Array.isArray(value) || Array.isArray(existing)) {
+								note.data[key] = [...new Set([...asStringList(existing), ...asStringList(value)])];
+								changed.push(key);
+							} else {
+								conflicts.push(`${key} (is "${String(existing)}")`);
+							}
+							continue;
+						}
+						note.data[key] = value;
+						changed.push(key);
+					}
+					if (conflicts.length > 0 && changed.length === 0) {
+						return fail(`Refused: existing values differ for ${conflicts.join(", ")}. Pass overwrite: true to change them.`);
+					}
+					updated = serializeNote(note);
+					summary =
+						(changed.length > 0 ? `Set ${changed.join(", ")}.` : "No changes.") +
+						(conflicts.length > 0 ? ` Kept existing ${conflicts.join(", ")}.` : "");
+					break;
+				}
+				case "add_checklist": {
+					const item = params.content?.trim().replace(/^-\s*\[[ xX]\]\s*/, "");
+					if (!item) return fail("add_checklist needs content.");
+					const section = params.section ?? "Progress";
+					const existing = readSection(current, section) ?? "";
+					if (existing.split("\n").some((l) => l.replace(/^-\s*\[[ xX]\]\s*/, "").trim() === item)) {
+						summary = `"${item}" is already on the checklist in ## ${section}.`;
+						break;
+					}
+					updated = appendToSectionContent(current, section, `- [ ] ${item}`);
+					summary = `Added "${item}" to ## ${section}.`;
+					break;
+				}
+			}
+
+			if (updated !== current) {
+				writeNote(node.path, updated);
+				reindexQueued = true;
+			}
+
+			const revision = noteRevision(updated);
+			return {
+				content: [{ type: "text", text: `${node.title}: ${summary}\nRevision: ${revision}` }],
+				details: { path: node.path, action: params.action, revision } as UpdateDetails,
+			};
+		},
+		renderCall(args, theme) {
+			const target = args.section ? ` › ${args.section}` : "";
+			return new Text(
+				theme.fg("toolTitle", theme.bold("brain update ")) +
+					theme.fg("muted", `"${args.note}"${target} `) +
+					theme.fg("dim", args.action),
+				0,
+				0
+			);
+		},
+		renderResult(result, _options, theme) {
+			const details = result.details as UpdateDetails | undefined;
+			const text = result.content[0];
+			const icon = details?.error ? theme.fg("warning", "⚠ ") : theme.fg("success", "✓ ");
+			const body = text?.type === "text" ? text.text.split("\n")[0] : "";
+			return new Text(icon + theme.fg("muted", body), 0, 0);
+		},
+	});
+
+	pi.registerTool({
+		name: "second_brain_links",
+		label: "Brain Links",
+		description:
+			"Show the [[wiki-links]] into and out of a second brain note (backlinks and outbound links). Omit the note to list broken links across the knowledge base.",
+		parameters: Type.Object({
+			note: Type.Optional(Type.String({ description: "Note name, title or path" })),
+		}),
+		async execute(_toolCallId, params) {
+			const graph = getLinkGraph();
+			const label = (n: LinkNode) => `${n.title} (${n.category}/${n.name})`;
+
+			if (!params.note) {
+				const text =
+					graph.broken.length === 0
+						? "No broken links."
+						: graph.broken
+								.map((l) => `- [[${l.target}]] in ${graph.nodes.get(l.from)?.title ?? l.from} (line ${l.line})`)
+								.join("\n");
+				return {
+					content: [{ type: "text", text: `Broken links: ${graph.broken.length}\n${text}` }],
+					details: { broken: graph.broken.length } as LinksDetails,
+				};
+			}
+
+			const node = findLinkNode(graph, params.note);
+			const hood = node ? getNeighborhood(graph, node.path) : undefined;
+			if (!node || !hood) {
+				return {
+					content: [{ type: "text", text: `No note found for "${params.note}".` }],
+					details: { broken: 0 } as LinksDetails,
+				};
+			}
+
+			const outbound = hood.outbound.map(({ link, node: target }) =>
+				target ? `- ${label(target)}` : `- [[${link.target}]] — BROKEN (line ${link.line})`
+			);
+			const inbound = hood.inbound.map(({ node: source }) => `- ${label(source)}`);
+			const broken = hood.outbound.filter((o) => !o.node).length;
+
+			const text = [
+				`**${node.title}** — ${node.path}`,
+				`Outbound (${outbound.length}):`,
+				...(outbound.length > 0 ? outbound : ["- none"]),
+				`Inbound (${inbound.length}):`,
+				...(inbound.length > 0 ? inbound : ["- none"]),
+			].join("\n");
+
+			return {
+				content: [{ type: "text", text }],
+				details: { note: node.path, outbound: outbound.length, inbound: inbound.length, broken } as LinksDetails,
+			};
+		},
+		renderCall(args, theme) {
+			return new Text(
+				theme.fg("toolTitle", theme.bold("brain links ")) +
+					theme.fg("muted", args.note ? `"${args.note}"` : "(broken links)"),
+				0,
+				0
+			);
+		},
+		renderResult(result, { expanded }, theme) {
+			const details = result.details as LinksDetails | undefined;
+			let text =
+				theme.fg("accent", "🕸️ ") +
+				(details?.note
+					? theme.fg("muted", `→${details.outbound} ←${details.inbound}`)
+					: theme.fg("muted", "vault links"));
+			if (details?.broken) text += " " + theme.fg("warning", `${details.broken} broken`);
+			if (expanded) {
+				const body = result.content[0];
+				if (body?.type === "text") text += "\n" + theme.fg("dim", body.text);
+			}
+			return new Text(text, 0, 0);
+		},
+	});
+
+	pi.registerTool({
+		name: "second_brain_tasks",
+		label: "Brain Tasks",
+		description:
+			"List and complete checklist tasks from across the second brain (daily priorities, project checklists, inbox captures). Tasks may carry due:YYYY-MM-DD, !high|!medium|!low, +project and #tag markers. Actions: list (filter by view, project, tag, query), complete / reopen (by id from list).",
+		parameters: Type.Object({
+			action: StringEnum(["list", "complete", "reopen"] as const),
+			view: Type.Optional(StringEnum(["open", "overdue", "today", "week", "done", "all"] as const)),
+			project: Type.Optional(Type.String({ description: "Only tasks for this project" })),
+			tag: Type.Optional(Type.String({ description: "Only tasks with this tag (without #)" })),
+			query: Type.Optional(Type.String({ description: "Text to match in the task or its note title" })),
+			id: Type.Optional(Type.String({ description: "Task id for complete/reopen" })),
+		}),
+		async execute(_toolCallId, params) {
+			const tasks = getTasks();
+
+			if (params.action === "list") {
+				const matches = filterTasks(tasks, {
+					view: params.view,
+					project: params.project,
+					tag: params.tag,
+					query: params.query,
+				});
+				const overdue = matches.filter((t) => dueStatus(t) === "overdue").length;
+				const text =
+					matches.length === 0
+						? "No matching tasks."
+						: `${matches.length} task(s)${overdue > 0 ? `, ${overdue} overdue` : ""}:\n` +
+							matches.slice(0, 50).map(formatTaskLine).join("\n") +
+							(matches.length > 50 ? `\n… ${matches.length - 50} more` : "");
+				return {
+					content: [{ type: "text", text }],
+					details: { count: matches.length, overdue, action: "list" } as TasksDetails,
+				};
+			}
+
+			const task = params.id ? findTask(tasks, params.id) : undefined;
+			if (!task) {
+				return {
+					content: [{ type: "text", text: `No task with id "${params.id ?? ""}". List tasks first to get ids.` }],
+					details: { count: 0, action: params.action, error: true } as TasksDetails,
+				};
+			}
+
+			const done = params.action === "complete";
+			if (!setTaskDone(task, done)) {
+				return {
+					content: [{ type: "text", text: `"${task.text}" changed on disk since it was listed. List tasks again.` }],
+					details: { count: 0, action: params.action, error: true } as TasksDetails,
+				};
+			}
+			reindexQueued = true;
+			return {
+				content: [{ type: "text", text: `${done ? "Completed" : "Reopened"}: ${task.text} (${task.note})` }],
+				details: { count: 1, action: params.action } as TasksDetails,
+			};
+		},
+		renderCall(args, theme) {
+			const scope = [args.view, args.project && `+${args.project}`, args.tag && `#${args.tag}`, args.query, args.id]
+				.filter(Boolean)
+				.join(" ");
+			return new Text(
+				theme.fg("toolTitle", theme.bold(`brain tasks ${args.action} `)) + theme.fg("muted", scope),
+				0,
+				0
+			);
+		},
+		renderResult(result, { expanded }, theme) {
+			const details = result.details as TasksDetails | undefined;
+			if (details?.error) {
+				const body = result.content[0];
+				return new Text(theme.fg("error", body?.type === "text" ? body.text : "Task not updated"), 0, 0);
+			}
+			let text = theme.fg("accent", "✅ ");
+			if (details?.action === "list") {
+				text += theme.fg("muted", `${details.count} task(s)`);
+				if (details.overdue) text += " " + theme.fg("error", `${details.overdue} overdue`);
+			} else {
+				const body = result.content[0];
+				text += theme.fg("muted", body?.type === "text" ? body.text : "");
+			}
+			if (expanded && details?.action === "list") {
+				const body = result.content[0];
+				if (body?.type === "text") text += "\n" + theme.fg("dim", body.text);
+			}
+			return new Text(text, 0, 0);
+		},
+	});
+
 	// ─── Commands ───────────────────────────────────────────────────
 
 	pi.registerCommand("brain", {
-		description: "Open the Second Brain dashboard",
-		handler: async (_args, ctx) => {
+		description:
+			"Open the Second Brain dashboard (or: /brain vault [name], /brain rules [test [file]], /brain restore [project])",
+		getArgumentCompletions: (prefix) => {
+			const subcommands = ["vault", "rules", "restore", "context"];
+			const [sub, ...rest] = prefix.split(" ");
+			if (sub === "vault" && rest.length > 0) {
+				return listVaults(loadConfig(process.cwd()))
+					.filter((v) => v.startsWith(rest.join(" ")))
+					.map((v) => ({ value: `vault ${v}`, label: v }));
+			}
+			if (sub === "rules" && rest.length > 0) {
+				return "test".startsWith(rest[0]) ? [{ value: "rules test", label: "test" }] : null;
+			}
+			if (sub === "context" && rest.length > 0) {
+				const items = ["on", "off"].filter((v) => v.startsWith(rest[0])).map((v) => ({ value: `context ${v}`, label: v }));
+				return items.length > 0 ? items : null;
+			}
+			if (sub === "restore" && rest.length > 0) {
+				return listArchivedProjects()
+					.filter((n) => n.name.startsWith(rest.join(" ")))
+					.map((n) => ({ value: `restore ${n.name}`, label: n.title }));
+			}
+			const items = subcommands.filter((s) => s.startsWith(prefix)).map((s) => ({ value: s, label: s }));
+			return items.length > 0 ? items : null;
+		},
+		handler: async (args, ctx) => {
+			const [sub, ...rest] = (args ?? "").trim().split(/\s+/);
+			if (sub === "vault") {
+				await switchVault(rest.join(" "), ctx);
+				return;
+			}
+			if (sub === "rules") {
+				if (rest[0] === "test") await testRules(rest.slice(1).join(" "), ctx);
+				else await showRules(ctx);
+				return;
+			}
+			if (sub === "restore") {
+				await restoreFromArchive(rest.join(" "), ctx);
+				return;
+			}
+			if (sub === "context") {
+				toggleContext(rest[0], ctx);
+				return;
+			}
+
 			if (!ctx.hasUI) {
 				ctx.ui.notify("/brain requires interactive mode", "error");
 				return;
@@ -538,10 +1165,11 @@ export default function secondBrain(pi: ExtensionAPI): void {
 				recentNotes: allNotes.sort((a, b) => b.modified.getTime() - a.modified.getTime()).slice(0, 10),
 				totalNotes: allNotes.length,
 				dailyCount: dailies.length,
+				graph: getLinkGraph(),
 			};
 
-			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
-				const dash = new DashboardComponent(data, theme, () => done());
+			const path = await ctx.ui.custom<string | undefined>((tui, theme, _kb, done) => {
+				const dash = new DashboardComponent(data, theme, (p) => done(p), () => done(undefined));
 				return {
 					render: (w: number) => dash.render(w),
 					invalidate: () => dash.invalidate(),
@@ -551,15 +1179,145 @@ export default function secondBrain(pi: ExtensionAPI): void {
 					},
 				};
 			});
+			if (path) await openNote(ctx, path);
 		},
 	});
 
+	/** Helper: turn context injection on or off for this session, or report its state */
+	function toggleContext(value: string | undefined, ctx: ExtensionContext): void {
+		const enabled = contextEnabled(ctx.sessionManager.getBranch());
+		if (value !== "on" && value !== "off") {
+			ctx.ui.notify(`🧠 Context injection is ${enabled ? "on" : "off"} (/brain context on|off)`, "info");
+			return;
+		}
+		if ((value === "on") === enabled) {
+			ctx.ui.notify(`🧠 Context injection is already ${value}`, "info");
+			return;
+		}
+		pi.appendEntry(CONTEXT_TOGGLE_ENTRY, { enabled: value === "on" });
+		ctx.ui.notify(
+			value === "on"
+				? "🧠 Context injection on"
+				: "🧠 Context injection off — earlier context is hidden from the model too",
+			"info"
+		);
+	}
+
+	/** Helper: show or switch the active vault for this session */
+	async function switchVault(name: string, ctx: ExtensionContext): Promise<void> {
+		const vaults = listVaults(loadConfig(ctx.cwd));
+
+		if (!name) {
+			if (!ctx.hasUI) {
+				ctx.ui.notify(`🧠 Vault: ${activeVault.name} (${activeVault.path})`, "info");
+				return;
+			}
+			const labels = vaults.map((v) => (v === activeVault.name ? `● ${v}` : `  ${v}`));
+			const choice = await ctx.ui.select(`Active vault: ${activeVault.name} (${activeVault.source})`, labels);
+			if (!choice) return;
+			name = vaults[labels.indexOf(choice)];
+		}
+
+		if (!vaults.includes(name)) {
+			ctx.ui.notify(`Unknown vault "${name}". Configured: ${vaults.join(", ")}`, "error");
+			return;
+		}
+
+		vaultOverride = name;
+		activeVault = activateVault(ctx.cwd);
+		ensureDailyNote();
+		ctx.ui.notify(`🧠 Switched to vault "${activeVault.name}" (${activeVault.path})`, "info");
+		updateWidgets(ctx);
+	}
+
+	/** Helper: report which extraction rules are active, offering to create an editable copy */
+	async function showRules(ctx: ExtensionContext): Promise<void> {
+		const loaded = loadRules();
+		const source = loaded.path ?? "built-in rules";
+		const problems = loaded.errors.length > 0 ? ` — ${loaded.errors.length} problem(s): ${loaded.errors.join("; ")}` : "";
+		ctx.ui.notify(`🧠 ${loaded.rules.length} extraction rule(s) from ${source}${problems}`, problems ? "warning" : "info");
+
+		if (loaded.path || !ctx.hasUI) return;
+		const create = await ctx.ui.confirm(
+			"Customize extraction rules?",
+			`Write the built-in rules to ${getRulesPath()} so you can edit them?`
+		);
+		if (!create) return;
+		writeFileSync(getRulesPath(), JSON.stringify(DEFAULT_RULES, null, "\t") + "\n", "utf-8");
+		ctx.ui.notify(`🧠 Created ${getRulesPath()}`, "info");
+	}
+
+	/** Helper: preview what a rule set extracts from the current branch, without writing anything */
+	async function testRules(file: string, ctx: ExtensionContext): Promise<void> {
+		let loaded: LoadedRules;
+		if (file) {
+			const path = expandPath(file, ctx.cwd);
+			try {
+				loaded = compileRules(JSON.parse(readFileSync(path, "utf-8")), path);
+			} catch (err) {
+				ctx.ui.notify(`Could not read ${path}: ${(err as Error).message}`, "error");
+				return;
+			}
+		} else {
+			loaded = loadRules();
+		}
+
+		const messages = ctx.sessionManager
+			.getBranch()
+			.flatMap((e) => (e.type === "message" ? [e.message] : []));
+		const knowledge = lightExtract(messages, ctx.cwd, loaded);
+
+		const lines: string[] = [
+			`Rules: ${loaded.path ?? "built-in"} (${loaded.rules.length} rule(s))`,
+			`Scanned ${messages.length} message(s) on this branch`,
+		];
+		for (const error of loaded.errors) lines.push(`⚠ ${error}`);
+		for (const category of EXTRACTION_CATEGORIES) {
+			const items = knowledge[category];
+			lines.push("", `## ${category} (${items.length}/${loaded.limits[category]})`);
+			lines.push(...(items.length > 0 ? items.map((i) => `- ${i}`) : ["(none)"]));
+		}
+
+		if (!ctx.hasUI) {
+			ctx.ui.notify(lines.join("\n"), "info");
+			return;
+		}
+
+		await ctx.ui.custom<void>((_tui, theme, _kb, done) => {
+			const container = new Container();
+			container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+			container.addChild(new Text(theme.fg("accent", theme.bold("🧪 Extraction Rules Preview")), 1, 0));
+			container.addChild(new Text("", 0, 0));
+
+			const styled = lines.map((line) => {
+				if (line.startsWith("## ")) return theme.fg("accent", line.slice(3));
+				if (line.startsWith("⚠")) return theme.fg("warning", line);
+				if (line.startsWith("- ")) return theme.fg("muted", "•") + theme.fg("text", line.slice(1));
+				if (line === "(none)") return theme.fg("dim", "  (none)");
+				return theme.fg("dim", line);
+			});
+
+			container.addChild(new Text(styled.join("\n"), 1, 0));
+			container.addChild(new Text("", 0, 0));
+			container.addChild(new Text(theme.fg("dim", "Nothing is written. Press Esc to close"), 1, 0));
+			container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+
+			return {
+				render: (w: number) => container.render(w),
+				invalidate: () => container.invalidate(),
+				handleInput: (d: string) => {
+					if (matchesKey(d, Key.escape)) done();
+				},
+			};
+		});
+	}
+
 	pi.registerCommand("capture", {
 		description: "Quick capture a note to the second brain",
 		handler: async (_args, ctx) => {
 			if (!ctx.hasUI) return;
 
-			const categories: ParaCategory[] = ["inbox", "projects", "areas", "resources"];
+			const categories = ["inbox", "projects", "areas", "resources"] as const;
 			const labels = categories.map((c) => `${PARA_ICONS[c]} ${c.charAt(0).toUpperCase() + c.slice(1)}`);
 
 			const choice = await ctx.ui.select("Capture to:", labels);
@@ -574,17 +1332,34 @@ export default function secondBrain(pi: ExtensionAPI): void {
 			const content = await ctx.ui.editor("Note content:", "");
 			if (!content?.trim()) return;
 
-			const slug = slugify(title);
-			const dir = PARA_DIRS[category];
-			const filePath = join(dir, `${slug}.md`);
-			const date = new Date().toISOString().split("T")[0];
+			const slot = findNoteSlot(paraDir(category), title);
+			let filePath = slot.path;
+
+			if (slot.existing) {
+				const options = [
+					"➕ Append to existing note",
+					`📄 Save as new note (${basename(slot.path)})`,
+					"⚠️ Overwrite existing note",
+					"❌ Cancel",
+				];
+				const resolution = await ctx.ui.select(`"${title}" already exists in ${category}`, options);
+				if (!resolution || resolution === options[3]) return;
+
+				if (resolution === options[0]) {
+					const existing = readFileSync(slot.existing, "utf-8");
+					writeNote(slot.existing, `${existing.replace(/\n*$/, "")}\n\n${content.trim()}\n`);
+					reindexQueued = true;
+					ctx.ui.notify(`${PARA_ICONS[category]} Appended to: ${title}`, "info");
+					updateWidgets(ctx);
+					return;
+				}
+				if (resolution === options[2]) filePath = slot.existing;
+			}
 
-			mkdirSync(dir, { recursive: true });
-			writeFileSync(
-				filePath,
-				`---\ntitle: ${title}\ncreated: ${date}\n---\n# ${title}\n\n${content}\n`,
-				"utf-8"
-			);
+			const answers = await askTemplatePrompts(ctx, category);
+			if (!answers) return;
+
+			writeNote(filePath, renderNote(category, templateVars(title, ctx.cwd, { content }), answers));
 			reindexQueued = true;
 
 			ctx.ui.notify(`${PARA_ICONS[category]} Captured: ${title}`, "success");
@@ -592,49 +1367,287 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		},
 	});
 
+	/** Ask the `{{prompt:...}}` questions of a category's template; undefined if cancelled */
+	async function askTemplatePrompts(
+		ctx: ExtensionContext,
+		category: Exclude<ParaCategory, "archive">
+	): Promise<Record<string, string> | undefined> {
+		const template = loadTemplate(CATEGORY_TEMPLATES[category]);
+		const answers: Record<string, string> = {};
+		for (const prompt of template ? templatePrompts(template) : []) {
+			const answer = await ctx.ui.input(`${prompt.name}:`, prompt.default ?? "");
+			if (answer === undefined) return undefined;
+			answers[prompt.name] = answer.trim() || (prompt.default ?? "");
+		}
+		return answers;
+	}
+
+	const NEW_NOTE_KINDS: Record<string, Exclude<ParaCategory, "archive" | "inbox">> = {
+		project: "projects",
+		area: "areas",
+		resource: "resources",
+	};
+
+	pi.registerCommand("new", {
+		description: "Create a project, area or resource note from its template (/new project [title])",
+		getArgumentCompletions: (prefix) => {
+			if (prefix.includes(" ")) return null;
+			const matches = Object.keys(NEW_NOTE_KINDS).filter((k) => k.startsWith(prefix));
+			return matches.length > 0 ? matches.map((k) => ({ value: `${k} `, label: k })) : null;
+		},
+		handler: async (args, ctx) => {
+			const [kind = "", ...rest] = (args ?? "").trim().split(/\s+/);
+			let category = NEW_NOTE_KINDS[kind.toLowerCase()];
+			if (!category) {
+				if (!ctx.hasUI || kind) {
+					ctx.ui.notify("Usage: /new project|area|resource [title]", "warning");
+					return;
+				}
+				const kinds = Object.keys(NEW_NOTE_KINDS);
+				const labels = kinds.map((k) => `${PARA_ICONS[NEW_NOTE_KINDS[k]]} ${k}`);
+				const choice = await ctx.ui.select("New:", labels);
+				if (!choice) return;
+				category = NEW_NOTE_KINDS[kinds[labels.indexOf(choice)]];
+			}
+
+			let title = rest.join(" ").trim();
+			if (!title && ctx.hasUI) title = (await ctx.ui.input("Title:", ""))?.trim() ?? "";
+			if (!title) return;
+
+			const slot = findNoteSlot(paraDir(category), title);
+			if (slot.existing) {
+				ctx.ui.notify(`"${title}" already exists: ${relative(getBrainDir(), slot.existing)}`, "warning");
+				return;
+			}
+
+			const answers = ctx.hasUI ? await askTemplatePrompts(ctx, category) : {};
+			if (!answers) return;
+
+			writeNote(slot.path, renderNote(category, templateVars(title, ctx.cwd), answers));
+			reindexQueued = true;
+			ctx.ui.notify(`${PARA_ICONS[category]} Created ${relative(getBrainDir(), slot.path)}`, "info");
+			updateWidgets(ctx);
+		},
+	});
+
+	pi.registerCommand("extract", {
+		description: "Run deep knowledge extraction on the current branch now",
+		handler: async (_args, ctx) => {
+			const pending = unextractedEntries(ctx.sessionManager.getBranch());
+			if (ctx.hasUI) ctx.ui.notify("🧠 Extracting knowledge...", "info");
+
+			try {
+				const outcome = await deepExtract(ctx, pending, "manual");
+				if (!ctx.hasUI) return;
+
+				if (!outcome.ok) {
+					ctx.ui.notify(`🧠 Nothing extracted: ${outcome.reason}`, "warning");
+					return;
+				}
+
+				const { extraction } = outcome;
+				const counts = [
+					`${extraction.decisions.length} decision(s)`,
+					`${extraction.learnings.length} learning(s)`,
+					`${extraction.solutions.length} solution(s)`,
+					`${extraction.resourceTopics.length} resource topic(s)`,
+				];
+				const parts = outcome.chunks > 1 ? ` from ${outcome.chunks} chunks` : "";
+				const partial = outcome.partial ? " (stopped early, run /extract again later)" : "";
+				ctx.ui.notify(`🧠 Extracted ${counts.join(", ")}${parts}${partial}`, "info");
+				updateWidgets(ctx);
+			} catch (err) {
+				logExtractionFailure(`manual: ${(err as Error).message}`);
+				if (ctx.hasUI) ctx.ui.notify(`🧠 Extraction failed: ${(err as Error).message}`, "error");
+			}
+		},
+	});
+
+	/** Helper: open a file in $VISUAL or $EDITOR with the TUI suspended; false when neither is set */
+	function editInEditor(tui: TUI, path: string): boolean {
+		const editor = process.env.VISUAL || process.env.EDITOR;
+		if (!editor) return false;
+		const [command, ...args] = editor.split(" ").filter(Boolean);
+		tui.stop();
+		try {
+			spawnSync(command, [...args, path], { stdio: "inherit" });
+		} finally {
+			tui.start();
+			tui.requestRender(true);
+		}
+		return true;
+	}
+
+	/** Helper: move a note into the archive, keeping its subfolder; projects go through archiveProject */
+	function archiveNote(path: string): OrganizeResult {
+		const category = categoryOf(path) as ParaCategory;
+		const name = relative(paraDir(category), path).replace(/\.md$/, "");
+		if (category === "projects") return archiveProject(readNoteInfo(path, name, category));
+		return moveNote(path, join(paraDir("archive"), dirname(name)));
+	}
+
+	/**
+	 * Helper: show a note in the viewer. Editing and copying the path happen in
+	 * place; inserting, moving and archiving close it. Resolves true when the
+	 * note was acted on, false when the viewer was just closed.
+	 */
+	async function openNote(ctx: ExtensionContext, path: string, heading?: string): Promise<boolean> {
+		if (!existsSync(path)) {
+			ctx.ui.notify(`Note not found: ${path}`, "warning");
+			return false;
+		}
+
+		// Dated notes stay where they are; archived notes can still be moved back out
+		const category = categoryOf(path);
+		const actions: NoteAction[] = ["edit", "insert", "copy"];
+		if (category && category in PARA_FOLDERS) actions.push("move");
+		if (category && category in PARA_FOLDERS && category !== "archive") actions.push("archive");
+
+		const action = await ctx.ui.custom<NoteAction | undefined>((tui, theme, _kb, done) => {
+			const viewer = new NoteViewerComponent(
+				path,
+				readFileSync(path, "utf-8"),
+				theme,
+				() => tui.terminal.rows,
+				(action) => {
+					if (action === "edit") {
+						if (!editInEditor(tui, path)) {
+							ctx.ui.notify("Set $VISUAL or $EDITOR to edit notes", "warning");
+						} else if (existsSync(path)) {
+							notifyNoteChanged(path);
+							reindexQueued = true;
+							viewer.setContent(readFileSync(path, "utf-8"));
+						}
+					} else if (action === "copy") {
+						try {
+							copyToClipboard(path);
+							ctx.ui.notify(`📋 Copied ${path}`, "info");
+						} catch (err) {
+							ctx.ui.notify(`Couldn't copy the path: ${(err as Error).message}`, "error");
+						}
+					} else {
+						done(action);
+					}
+				},
+				() => done(undefined),
+				{ heading, actions }
+			);
+			return {
+				render: (w: number) => viewer.render(w),
+				invalidate: () => viewer.invalidate(),
+				handleInput: (d: string) => {
+					viewer.handleInput(d);
+					tui.requestRender();
+				},
+			};
+		});
+
+		if (action === "insert") {
+			const content = readFileSync(path, "utf-8");
+			const { data, body } = parseNote(content);
+			const title = asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1] || basename(path, ".md");
+			pi.sendMessage<NoteMessageDetails>(
+				{
+					customType: NOTE_MESSAGE,
+					content: formatNoteMessage(path, title, content),
+					display: true,
+					details: { path, title },
+				},
+				{ deliverAs: "followUp" }
+			);
+			return true;
+		}
+		if (action === "archive") return report(archiveNote(path), ctx);
+		if (action === "move") {
+			const targets: Record<string, ParaCategory> = {
+				"📦 Projects": "projects",
+				"🔄 Areas": "areas",
+				"📚 Resources": "resources",
+				"📥 Inbox": "inbox",
+			};
+			const choice = await ctx.ui.select(`Move ${basename(path)} to:`, Object.keys(targets));
+			const dir = choice ? await pickFolder(targets[choice], ctx) : undefined;
+			return dir ? report(moveNote(path, dir), ctx) : false;
+		}
+		return false;
+	}
+
 	pi.registerCommand("daily", {
 		description: "View today's daily note",
 		handler: async (_args, ctx) => {
 			if (!ctx.hasUI) return;
+			await openNote(ctx, ensureDailyNote(), "📅 Today's Daily Note");
+		},
+	});
 
-			const content = readDailyNote();
-			await ctx.ui.custom<void>((_tui, theme, _kb, done) => {
-				const container = new Container();
-				container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
-				container.addChild(
-					new Text(theme.fg("accent", theme.bold("📅 Today's Daily Note")), 1, 0)
-				);
-				container.addChild(new Text("", 0, 0));
-
-				// Show the note content (simplified, no full markdown rendering to avoid complexity)
-				const noteLines = content.split("\n").map((line) => {
-					if (line.startsWith("# ")) return theme.fg("accent", theme.bold(line));
-					if (line.startsWith("## ")) return theme.fg("accent", line);
-					if (line.startsWith("- [x]")) return theme.fg("success", "☑") + theme.fg("dim", line.slice(5));
-					if (line.startsWith("- [ ]")) return theme.fg("muted", "☐") + theme.fg("text", line.slice(5));
-					if (line.startsWith("- ")) return theme.fg("muted", "•") + theme.fg("text", line.slice(2));
-					if (line.startsWith("<!--")) return "";
-					return theme.fg("text", line);
-				});
+	/** Helper: ask the extraction model for a rollup narrative; undefined on failure */
+	async function rollupNarrative(ctx: ExtensionContext, period: RollupPeriod, digests: DayDigest[]) {
+		const settings = extractionSettings(loadConfig(ctx.cwd));
+		const model = extractionModel(ctx, settings.model);
+		if (!model || digests.length === 0) return undefined;
+		const apiKey = await ctx.modelRegistry.getApiKey(model);
+		if (!apiKey) return undefined;
 
-				container.addChild(new Text(noteLines.filter(Boolean).join("\n"), 1, 0));
-				container.addChild(new Text("", 0, 0));
-				container.addChild(new Text(theme.fg("dim", "Press Esc to close"), 1, 0));
-				container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+		try {
+			const response = await complete(
+				model,
+				{
+					messages: [
+						{
+							role: "user" as const,
+							content: [{ type: "text" as const, text: buildNarrativePrompt(period, digests) }],
+							timestamp: Date.now(),
+						},
+					],
+				},
+				{ apiKey, maxTokens: 1024 }
+			);
+			if (response.stopReason === "error") throw new Error(response.errorMessage ?? "Model request failed");
+			return response.content
+				.filter((c): c is { type: "text"; text: string } => c.type === "text")
+				.map((c) => c.text)
+				.join("\n")
+				.trim();
+		} catch (err) {
+			logExtractionFailure(`rollup narrative for ${period.id} failed`, (err as Error).message);
+			return undefined;
+		}
+	}
 
-				return {
-					render: (w: number) => container.render(w),
-					invalidate: () => container.invalidate(),
-					handleInput: (d: string) => {
-						if (matchesKey(d, Key.escape)) done();
-					},
-				};
-			});
+	pi.registerCommand("week", {
+		description: "Open this week's rollup (or: /week last, /week month, /week 2026-W42, /week 2026-09; add 'narrate' for an AI summary)",
+		getArgumentCompletions: (prefix) => {
+			const words = prefix.split(" ");
+			const last = words.pop() ?? "";
+			const matches = ["last", "month", "narrate"].filter((w) => w.startsWith(last) && !words.includes(w));
+			return matches.length > 0 ? matches.map((w) => ({ value: [...words, w].join(" "), label: w })) : null;
+		},
+		handler: async (args, ctx) => {
+			const words = (args ?? "").trim().split(/\s+/).filter(Boolean);
+			const narrate = words.includes("narrate") || loadConfig(ctx.cwd).rollupNarrative === true;
+			const period = parsePeriod(words.filter((w) => w !== "narrate").join(" "));
+			if (!period) {
+				ctx.ui.notify("Usage: /week [last] [month] [YYYY-Www | YYYY-MM] [narrate]", "warning");
+				return;
+			}
+
+			let narrative: string | undefined;
+			if (narrate) {
+				ctx.ui.notify(`🧠 Writing a summary of ${period.title}...`, "info");
+				narrative = await rollupNarrative(ctx, period, collectDigests(period));
+				if (!narrative) ctx.ui.notify("Couldn't write a summary (see the second-brain log)", "warning");
+			}
+
+			const path = writeRollup(period, narrative);
+			reindexQueued = true;
+			if (!ctx.hasUI) return;
+			await openNote(ctx, path, `📆 ${period.title}`);
 		},
 	});
 
 	pi.registerCommand("search", {
-		description: "Search the second brain knowledge base",
+		description:
+			"Search the second brain (filters: in:resources project:x tag:x since:2026-09 until:2026-10 archived:yes; mode:semantic|hybrid)",
 		handler: async (args, ctx) => {
 			if (!ctx.hasUI) return;
 
@@ -644,28 +1657,58 @@ export default function secondBrain(pi: ExtensionAPI): void {
 				if (!query?.trim()) return;
 			}
 
-			ctx.ui.notify("🔍 Searching...", "info");
-			const results = await qmdSearch(pi, query, 10);
+			// mode:keyword|semantic|hybrid anywhere in the query picks the search mode
+			let mode: SearchMode = "keyword";
+			query = query
+				.replace(/(^|\s)mode:(\S+)/g, (whole, _space: string, value: string) => {
+					if (!(SEARCH_MODES as readonly string[]).includes(value)) return whole;
+					mode = value as SearchMode;
+					return " ";
+				})
+				.trim();
+
+			// in:, project:, tag:, since:, until:, date:, archived: narrow the results
+			const parsed = parseSearchArgs(query);
+			const applied = describeFilters(parsed.filters);
+			if (parsed.invalid.length > 0) {
+				const understood = applied ? ` (understood: ${applied})` : "";
+				ctx.ui.notify(`Unrecognized filter: ${parsed.invalid.join(", ")}${understood}`, "warning");
+				return;
+			}
+			if (!parsed.query && !hasFilters(parsed.filters)) return;
 
-			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
-				const comp = new SearchResultsComponent(
-					results,
-					theme,
-					(result) => {
-						ctx.ui.notify(`📄 ${result.title}\n${result.path}`, "info");
-						done();
-					},
-					() => done()
-				);
-				return {
-					render: (w: number) => comp.render(w),
-					invalidate: () => comp.invalidate(),
-					handleInput: (d: string) => {
-						comp.handleInput(d);
-						tui.requestRender();
-					},
-				};
+			ctx.ui.notify("🔍 Searching...", "info");
+			const { results, engine } = await searchBrain(pi, parsed.query, {
+				maxResults: 10,
+				collection: activeVault.collection,
+				mode,
+				filters: parsed.filters,
 			});
+			if (engine !== mode) ctx.ui.notify(`${mode} search unavailable, used ${engine} search`, "warning");
+			if (results.length === 0) {
+				const scope = applied ? ` with ${applied}` : "";
+				ctx.ui.notify(`No results${parsed.query ? ` for "${parsed.query}"` : ""}${scope}`, "info");
+				return;
+			}
+
+			// Closing the viewer returns to the results, on the same one
+			let selected = 0;
+			while (true) {
+				const result = await ctx.ui.custom<SearchResult | undefined>((tui, theme, _kb, done) => {
+					const comp = new SearchResultsComponent(results, theme, (r) => done(r), () => done(undefined), selected);
+					return {
+						render: (w: number) => comp.render(w),
+						invalidate: () => comp.invalidate(),
+						handleInput: (d: string) => {
+							comp.handleInput(d);
+							tui.requestRender();
+						},
+					};
+				});
+				if (!result) return;
+				selected = results.indexOf(result);
+				if (await openNote(ctx, result.path)) return;
+			}
 		},
 	});
 
@@ -694,173 +1737,414 @@ export default function secondBrain(pi: ExtensionAPI): void {
 					updateWidgets(ctx);
 				}
 			} else {
-				// Interactive toggle UI
-				await ctx.ui.custom<void>((tui, theme, _kb, done) => {
-					let selected = 0;
-					let items = [...priorities];
-
-					function buildLines(width: number): string[] {
-						const lines: string[] = [];
-						lines.push("");
-						const title = theme.fg("accent", theme.bold(" 📅 Priorities "));
+				await managePriorities(priorities, ctx);
+			}
+		},
+	});
+
+	type PriorityAction = { type: "convert"; index: number };
+
+	/**
+	 * Helper: interactive priority list. Toggling and dropping happen in place;
+	 * moving an item to a project closes the list to pick the project, then reopens it.
+	 */
+	async function managePriorities(priorities: Priority[], ctx: ExtensionContext): Promise<void> {
+		let items = [...priorities];
+		let selected = 0;
+
+		const save = () => {
+			writePriorities(items.map(formatPriority));
+			reindexQueued = true;
+			updateWidgets(ctx);
+		};
+
+		while (items.length > 0) {
+			const action = await ctx.ui.custom<PriorityAction | undefined>((tui, theme, _kb, done) => {
+				function buildLines(width: number): string[] {
+					const lines: string[] = [];
+					lines.push("");
+					const title = theme.fg("accent", theme.bold(" 📅 Priorities "));
+					lines.push(
+						truncateToWidth(
+							theme.fg("borderAccent", "━".repeat(3)) + title + theme.fg("borderAccent", "━".repeat(Math.max(0, width - 20))),
+							width
+						)
+					);
+					lines.push("");
+
+					const completed = items.filter((p) => p.done).length;
+					lines.push(truncateToWidth(`  ${theme.fg("muted", `${completed}/${items.length} completed`)}`, width));
+					const stale = items.filter((p) => !p.done && carriedDays(p) >= carryWarningDays).length;
+					if (stale > 0) {
 						lines.push(
 							truncateToWidth(
-								theme.fg("borderAccent", "━".repeat(3)) + title + theme.fg("borderAccent", "━".repeat(Math.max(0, width - 20))),
+								"  " + theme.fg("warning", `⏳ ${stale} carried ${carryWarningDays}+ days — drop (d) or move to a project (p)?`),
 								width
 							)
 						);
-						lines.push("");
-
-						const done = items.filter((p) => p.done).length;
-						lines.push(truncateToWidth(`  ${theme.fg("muted", `${done}/${items.length} completed`)}`, width));
-						lines.push("");
-
-						for (let i = 0; i < items.length; i++) {
-							const p = items[i];
-							const pointer = i === selected ? theme.fg("accent", "▸ ") : "  ";
-							const check = p.done ? theme.fg("success", "☑") : theme.fg("muted", "☐");
-							const text = p.done
-								? theme.fg("dim", theme.strikethrough(p.text))
-								: theme.fg("text", p.text);
-							lines.push(truncateToWidth(`${pointer}${check} ${text}`, width));
+					}
+					lines.push("");
+
+					for (let i = 0; i < items.length; i++) {
+						const p = items[i];
+						const pointer = i === selected ? theme.fg("accent", "▸ ") : "  ";
+						const check = p.done ? theme.fg("success", "☑") : theme.fg("muted", "☐");
+						const text = p.done
+							? theme.fg("dim", theme.strikethrough(p.text))
+							: theme.fg("text", p.text);
+						lines.push(truncateToWidth(`${pointer}${check} ${text}${carryBadge(p, theme, carryWarningDays)}`, width));
+					}
+
+					lines.push("");
+					lines.push(
+						truncateToWidth(
+							"  " + theme.fg("dim", "↑↓ navigate • Space/Enter toggle • d drop • p move to project • a add • Esc close"),
+							width
+						)
+					);
+					lines.push("");
+					return lines;
+				}
+
+				let cachedLines: string[] | undefined;
+				let cachedWidth: number | undefined;
+
+				return {
+					render: (w: number) => {
+						if (cachedLines && cachedWidth === w) return cachedLines;
+						cachedLines = buildLines(w);
+						cachedWidth = w;
+						return cachedLines;
+					},
+					invalidate: () => { cachedWidth = undefined; cachedLines = undefined; },
+					handleInput: (data: string) => {
+						if (matchesKey(data, Key.escape) || matchesKey(data, "q")) {
+							done(undefined);
+						} else if (matchesKey(data, Key.up) || matchesKey(data, "k")) {
+							selected = Math.max(0, selected - 1);
+						} else if (matchesKey(data, Key.down) || matchesKey(data, "j")) {
+							selected = Math.min(items.length - 1, selected + 1);
+						} else if (matchesKey(data, Key.space) || matchesKey(data, Key.enter)) {
+							// Toggle the selected priority and write back to daily note
+							items[selected] = { ...items[selected], done: !items[selected].done };
+							save();
+						} else if (data === "d") {
+							items = items.filter((_, i) => i !== selected);
+							selected = Math.min(selected, Math.max(0, items.length - 1));
+							save();
+							if (items.length === 0) done(undefined);
+						} else if (data === "p") {
+							done({ type: "convert", index: selected });
+						} else if (data === "a") {
+							// Can't open editor inside custom, so close and re-enter
+							// For now, just notify
+							ctx.ui.notify("Use /priorities when no priorities exist, or edit daily note directly", "info");
 						}
+						cachedWidth = undefined;
+						cachedLines = undefined;
+						tui.requestRender();
+					},
+				};
+			});
 
-						lines.push("");
-						lines.push(truncateToWidth("  " + theme.fg("dim", "↑↓ navigate • Space/Enter toggle • a add • Esc close"), width));
-						lines.push("");
-						return lines;
-					}
+			if (!action) return;
 
-					let cachedLines: string[] | undefined;
-					let cachedWidth: number | undefined;
+			const item = items[action.index];
+			const projects = listNotes("projects");
+			if (projects.length === 0) {
+				ctx.ui.notify("No projects to move this priority to", "warning");
+				continue;
+			}
+			const labels = projects.map((p) => `${PARA_ICONS.projects} ${p.title}`);
+			const choice = await ctx.ui.select(`Move "${item.text}" to project:`, labels);
+			if (!choice) continue;
+
+			const project = projects[labels.indexOf(choice)];
+			const content = readFileSync(project.path, "utf-8");
+			writeNote(project.path, appendToSectionContent(content, "Progress", `- [ ] ${item.text}`));
+			items = items.filter((_, i) => i !== action.index);
+			selected = Math.min(selected, Math.max(0, items.length - 1));
+			save();
+			ctx.ui.notify(`${PARA_ICONS.projects} Moved to ${project.title}: ${item.text}`, "info");
+		}
+	}
 
-					return {
-						render: (w: number) => {
-							if (cachedLines && cachedWidth === w) return cachedLines;
-							cachedLines = buildLines(w);
-							cachedWidth = w;
-							return cachedLines;
-						},
-						invalidate: () => { cachedWidth = undefined; cachedLines = undefined; },
-						handleInput: (data: string) => {
-							if (matchesKey(data, Key.escape) || matchesKey(data, "q")) {
-								done();
-							} else if (matchesKey(data, Key.up) || matchesKey(data, "k")) {
-								selected = Math.max(0, selected - 1);
-							} else if (matchesKey(data, Key.down) || matchesKey(data, "j")) {
-								selected = Math.min(items.length - 1, selected + 1);
-							} else if (matchesKey(data, Key.space) || matchesKey(data, Key.enter)) {
-								// Toggle the selected priority
-								items[selected] = { ...items[selected], done: !items[selected].done };
-								// Write back to daily note
-								const lines = items.map((p) =>
-									p.done ? `- [x] ${p.text}` : `- [ ] ${p.text}`
-								);
-								writePriorities(lines);
-								reindexQueued = true;
-								updateWidgets(ctx);
-							} else if (data === "a") {
-								// Can't open editor inside custom, so close and re-enter
-								// For now, just notify
-								ctx.ui.notify("Use /priorities when no priorities exist, or edit daily note directly", "info");
-							}
-							cachedWidth = undefined;
-							cachedLines = undefined;
-							tui.requestRender();
-						},
-					};
-				});
+	pi.registerCommand("tasks", {
+		description: "Browse and toggle tasks across the vault (/tasks [open|overdue|today|week|done|all] [+project] [#tag] [text])",
+		getArgumentCompletions: (prefix) => {
+			const words = prefix.split(" ");
+			const last = words.pop() ?? "";
+			const matches = TASK_VIEWS.filter((v) => v.startsWith(last));
+			return matches.length > 0
+				? matches.map((v) => ({ value: [...words, v].join(" "), label: v }))
+				: null;
+		},
+		handler: async (args, ctx) => {
+			const filter = parseTaskFilter(args ?? "");
+
+			if (!ctx.hasUI) {
+				const tasks = filterTasks(getTasks(), filter);
+				ctx.ui.notify(tasks.length > 0 ? tasks.map(formatTaskLine).join("\n") : "No tasks.", "info");
+				return;
 			}
+
+			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+				const comp = new TaskListComponent(
+					filter,
+					theme,
+					(f) => filterTasks(getTasks(), f),
+					(task) => {
+						if (!setTaskDone(task, !task.done)) {
+							ctx.ui.notify(`"${task.text}" changed on disk; list refreshed`, "warning");
+							return;
+						}
+						reindexQueued = true;
+						updateWidgets(ctx);
+					},
+					() => done()
+				);
+				return {
+					render: (w: number) => comp.render(w),
+					invalidate: () => comp.invalidate(),
+					handleInput: (d: string) => {
+						comp.handleInput(d);
+						tui.requestRender();
+					},
+				};
+			});
 		},
 	});
 
-	/** Helper: write priority lines back to the daily note */
-	function writePriorities(lines: string[]): void {
-		const path = ensureDailyNote();
-		const content = readFileSync(path, "utf-8");
-		const fileLines = content.split("\n");
-		let startIdx = -1;
-		let endIdx = -1;
-
-		for (let i = 0; i < fileLines.length; i++) {
-			if (fileLines[i].startsWith("## Priorities")) {
-				startIdx = i + 1;
-			} else if (startIdx >= 0 && fileLines[i].startsWith("## ")) {
-				endIdx = i;
-				break;
+	/** Helper: tell the user how a note operation went */
+	function report(result: OrganizeResult, ctx: ExtensionContext): boolean {
+		if (result.ok) {
+			ctx.ui.notify(`${result.label} (/review undo to revert)`, "info");
+			reindexQueued = true;
+		} else {
+			ctx.ui.notify(result.reason, "warning");
+		}
+		return result.ok;
+	}
+
+	/** Helper: pick a folder in a category — top level, an existing subfolder or a new one */
+	async function pickFolder(category: ParaCategory, ctx: ExtensionContext): Promise<string | undefined> {
+		const subfolders = listSubfolders(category);
+		const topLevel = `${PARA_ICONS[category]} ${PARA_FOLDERS[category]}/ (top level)`;
+		const newFolder = "➕ New folder…";
+		const choice = await ctx.ui.select(`Move into ${category}:`, [
+			topLevel,
+			...subfolders.map((f) => `📁 ${f}/`),
+			newFolder,
+		]);
+		if (!choice) return undefined;
+		if (choice === topLevel) return paraDir(category);
+		if (choice === newFolder) {
+			const name = await ctx.ui.input("Folder name:", "");
+			const slug = name ? slugify(name) : "";
+			return slug ? join(paraDir(category), slug) : undefined;
+		}
+		return join(paraDir(category), choice.slice(3, -1));
+	}
+
+	/**
+	 * Helper: walk the inbox one note at a time. Notes that leave the inbox
+	 * drop out of the list; Next/Previous page through the rest.
+	 */
+	async function processInbox(notes: NoteInfo[], ctx: ExtensionContext): Promise<void> {
+		const moves: Record<string, ParaCategory> = {
+			"📦 Move to a project": "projects",
+			"🔄 Move to an area": "areas",
+			"📚 Move to resources": "resources",
+			"🗄️ Archive": "archive",
+		};
+		let i = 0;
+
+		while (notes.length > 0) {
+			i = Math.max(0, Math.min(i, notes.length - 1));
+			const note = notes[i];
+			const { body } = parseNote(readFileSync(note.path, "utf-8"));
+			const preview = body.replace(/^#\s+.+\n*/m, "").trim().slice(0, 200);
+
+			const choice = await ctx.ui.select(`[${i + 1}/${notes.length}] ${note.title}\n${preview}${preview.length >= 200 ? "…" : ""}`, [
+				...Object.keys(moves),
+				"✏️ Retitle",
+				"🔗 Merge into another note",
+				"💤 Snooze",
+				"🗑️ Delete",
+				"⏭️ Next",
+				"⏮️ Previous",
+				"❌ Stop reviewing",
+			]);
+
+			if (!choice || choice.startsWith("❌")) return;
+			if (choice.startsWith("⏭️")) {
+				if (i === notes.length - 1) return;
+				i++;
+				continue;
+			}
+			if (choice.startsWith("⏮️")) {
+				i--;
+				continue;
+			}
+
+			let result: OrganizeResult | undefined;
+			if (moves[choice]) {
+				const dir = await pickFolder(moves[choice], ctx);
+				if (dir) result = moveNote(note.path, dir);
+			} else if (choice.startsWith("✏️")) {
+				const title = await ctx.ui.input("New title:", note.title);
+				if (title?.trim() && title.trim() !== note.title) {
+					result = retitleNote(note.path, title.trim());
+					// Stays in the inbox under its new name
+					if (report(result, ctx) && result.ok && result.path) {
+						notes[i] = readNoteInfo(result.path, basename(result.path, ".md"), "inbox");
+					}
+					continue;
+				}
+			} else if (choice.startsWith("🔗")) {
+				const targets = (["projects", "areas", "resources"] as const).flatMap((c) => listNotes(c));
+				const labels = targets.map((t) => `${PARA_ICONS[t.category]} ${t.title} (${t.name})`);
+				const target = await ctx.ui.select(`Merge "${note.title}" into:`, labels);
+				if (target) result = mergeNote(note.path, targets[labels.indexOf(target)].path);
+			} else if (choice.startsWith("💤")) {
+				const labels = SNOOZE_OPTIONS.map((o) => o.label);
+				const picked = await ctx.ui.select(`Snooze "${note.title}" until:`, labels);
+				const option = SNOOZE_OPTIONS.find((o) => o.label === picked);
+				if (option) result = snoozeNote(note.path, snoozeUntil(option.days));
+			} else if (choice.startsWith("🗑️")) {
+				if (await ctx.ui.confirm("Delete note?", `Delete "${note.title}"? /review undo can restore it.`)) {
+					result = deleteNote(note.path);
+				}
+			}
+
+			// Handled notes leave the list; the cursor stays put on the next one
+			if (result && report(result, ctx)) notes.splice(i, 1);
+		}
+	}
+
+	/** Helper: suggest archiving idle projects, then offer status changes for the rest */
+	async function reviewProjects(ctx: ExtensionContext): Promise<void> {
+		const projects = listProjects();
+		if (projects.length === 0) return;
+
+		const staleDays = loadConfig(ctx.cwd).staleProjectDays ?? DEFAULT_STALE_PROJECT_DAYS;
+		const stale = staleProjects(projects, staleDays);
+		const handled = new Set<string>();
+		const idle = (p: ProjectInfo) => {
+			const days = daysIdle(p);
+			return days === undefined ? "no activity recorded" : `last activity ${days}d ago (${p.lastActivity})`;
+		};
+
+		if (stale.length > 0) {
+			ctx.ui.notify(`💤 ${stale.length} project(s) with no activity in ${staleDays}+ days`, "info");
+			for (const project of stale) {
+				const choice = await ctx.ui.select(`${project.note.title} [${project.status}] — ${idle(project)}`, [
+					"🗄️ Archive",
+					"✅ Mark done and archive",
+					"⏸️ Pause",
+					"▶️ Keep active",
+					"❌ Stop",
+				]);
+				if (!choice || choice.startsWith("❌")) break;
+				if (choice.startsWith("🗄️")) report(archiveProject(project.note), ctx);
+				else if (choice.startsWith("✅")) report(archiveProject(project.note, "done"), ctx);
+				else if (choice.startsWith("⏸️")) report(setProjectStatus(project.note, "paused"), ctx);
+				else if (project.status !== "active") report(setProjectStatus(project.note, "active"), ctx);
+				handled.add(project.note.path);
 			}
 		}
 
-		if (startIdx >= 0) {
-			if (endIdx === -1) endIdx = fileLines.length;
-			fileLines.splice(startIdx, endIdx - startIdx, ...lines, "");
-			writeFileSync(path, fileLines.join("\n"), "utf-8");
+		const rest = projects.filter((p) => !handled.has(p.note.path));
+		if (rest.length === 0) return;
+		const labels = rest.map((p) => `${p.note.title} [${p.status}] — ${idle(p)}`);
+		const none = "None — leave projects as they are";
+		const picked = await ctx.ui.select("Change a project's status?", [...labels, none]);
+		const project = picked && picked !== none ? rest[labels.indexOf(picked)] : undefined;
+		if (!project) return;
+
+		const choice = await ctx.ui.select(`${project.note.title} [${project.status}]:`, [
+			"▶️ Active",
+			"⏸️ Paused",
+			"✅ Done",
+			"🗄️ Archive",
+		]);
+		if (!choice) return;
+		if (choice.startsWith("🗄️")) {
+			report(archiveProject(project.note), ctx);
+			return;
 		}
+		const status: ProjectStatus = choice.startsWith("▶️") ? "active" : choice.startsWith("⏸️") ? "paused" : "done";
+		report(setProjectStatus(project.note, status), ctx);
 	}
 
-	pi.registerCommand("review", {
-		description: "Weekly review wizard — process inbox, review projects, update priorities",
-		handler: async (_args, ctx) => {
-			if (!ctx.hasUI) return;
+	/** Helper: move an archived project back into projects/ */
+	async function restoreFromArchive(query: string, ctx: ExtensionContext): Promise<void> {
+		const archived = listArchivedProjects();
+		if (archived.length === 0) {
+			ctx.ui.notify("No archived projects to restore", "info");
+			return;
+		}
 
-			// Step 1: Process inbox
-			const inboxNotes = listNotes("inbox");
-			if (inboxNotes.length > 0) {
-				ctx.ui.notify(`📥 Inbox has ${inboxNotes.length} item(s) to process`, "info");
-
-				for (const note of inboxNotes.slice(0, 5)) {
-					const content = readFileSync(note.path, "utf-8").slice(0, 300);
-					const choice = await ctx.ui.select(
-						`${note.title}\n${content.slice(0, 100)}...`,
-						[
-							"📦 Move to Projects",
-							"🔄 Move to Areas",
-							"📚 Move to Resources",
-							"🗄️ Archive",
-							"⏭️ Skip",
-							"❌ Stop reviewing",
-						]
-					);
+		const wanted = slugify(query);
+		let note = query ? archived.find((n) => n.name === query || slugify(n.title) === wanted) : undefined;
+		if (!note && query) {
+			ctx.ui.notify(`No archived project "${query}"`, "warning");
+			return;
+		}
+		if (!note) {
+			if (!ctx.hasUI) return;
+			const labels = archived.map((n) => {
+				const when = asString(n.frontmatter.archived);
+				return `${PARA_ICONS.archive} ${n.title}${when ? ` (archived ${when})` : ""}`;
+			});
+			const choice = await ctx.ui.select("Restore which project?", labels);
+			if (!choice) return;
+			note = archived[labels.indexOf(choice)];
+		}
 
-					if (!choice || choice.startsWith("❌")) break;
-					if (choice.startsWith("⏭️")) continue;
+		report(restoreProject(note), ctx);
+		updateWidgets(ctx);
+	}
 
-					const targetMap: Record<string, ParaCategory> = {
-						"📦": "projects",
-						"🔄": "areas",
-						"📚": "resources",
-						"🗄️": "archive",
-					};
-					const icon = choice.slice(0, 2);
-					const target = targetMap[icon];
-					if (target) {
-						const targetDir = PARA_DIRS[target];
-						const { code } = await pi.exec("mv", [note.path, join(targetDir, note.name + ".md")]);
-						if (code === 0) {
-							ctx.ui.notify(`Moved to ${target}: ${note.title}`, "success");
-						}
-					}
-				}
-			} else {
-				ctx.ui.notify("📥 Inbox is empty — nothing to process!", "success");
+	pi.registerCommand("review", {
+		description: "Weekly review wizard — process inbox, review projects, update priorities (/review undo reverts the last change)",
+		getArgumentCompletions: (prefix) => ("undo".startsWith(prefix) ? [{ value: "undo", label: "undo" }] : null),
+		handler: async (args, ctx) => {
+			if (args?.trim() === "undo") {
+				report(undoLast(), ctx);
+				updateWidgets(ctx);
+				return;
 			}
+			if (!ctx.hasUI) return;
 
-			// Step 2: Review active projects
-			const projects = listNotes("projects");
-			if (projects.length > 0) {
-				const archiveChoice = await ctx.ui.select(
-					"Any projects to archive?",
-					[...projects.map((p) => p.title), "None — all active"]
+			// Look back at the week first
+			const week = periodOf("week");
+			writeRollup(week);
+			const digests = collectDigests(week);
+			const count = (pick: (d: DayDigest) => string[]) => digests.reduce((n, d) => n + pick(d).length, 0);
+			ctx.ui.notify(
+				`📆 ${week.title}: ${count((d) => d.completed)} completed, ${count((d) => d.decisions)} decisions, ` +
+					`${count((d) => d.learned)} learned across ${digests.length} day(s) — /week to read`,
+				"info"
+			);
+
+			// Step 1: Process inbox
+			const inbox = listNotes("inbox");
+			const notes = inbox.filter((n) => !isSnoozed(n.frontmatter));
+			const snoozed = inbox.length - notes.length;
+			if (notes.length > 0) {
+				ctx.ui.notify(
+					`📥 Inbox has ${notes.length} item(s) to process${snoozed > 0 ? ` (${snoozed} snoozed)` : ""}`,
+					"info"
 				);
-				if (archiveChoice && archiveChoice !== "None — all active") {
-					const project = projects.find((p) => p.title === archiveChoice);
-					if (project) {
-						await pi.exec("mv", [project.path, join(PARA_DIRS.archive, project.name + ".md")]);
-						ctx.ui.notify(`Archived: ${project.title}`, "success");
-					}
-				}
+				await processInbox(notes, ctx);
+			} else {
+				ctx.ui.notify(`📥 Inbox is empty — nothing to process!${snoozed > 0 ? ` (${snoozed} snoozed)` : ""}`, "info");
 			}
 
+			// Step 2: Review projects, starting with the ones gone quiet
+			await reviewProjects(ctx);
+
 			// Step 3: Set tomorrow's priorities
 			const setPriorities = await ctx.ui.confirm(
 				"Set priorities?",
@@ -902,7 +2186,7 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		},
 	});
 
-	// ─── Custom Message Renderer ────────────────────────────────────
+	// ─── Custom Message Renderers ───────────────────────────────────
 
 	pi.registerMessageRenderer("second-brain-capture", (message, options, theme) => {
 		const icon = theme.fg("accent", "🧠 ");
@@ -916,6 +2200,39 @@ export default function secondBrain(pi: ExtensionAPI): void {
 		return new Text(text, 0, 0);
 	});
 
+	pi.registerMessageRenderer<ContextDetails>(CONTEXT_MESSAGE, (message, options, theme) => {
+		const notes = message.details?.notes ?? [];
+		const reused = message.details?.reused ?? [];
+		let text = theme.fg("accent", "🧠 ") + theme.fg("accent", theme.bold("Brain Context"));
+		text += theme.fg("dim", ` · ${notes.length} note(s)`);
+		if (reused.length > 0) text += theme.fg("dim", `, ${reused.length} reused`);
+
+		for (const note of notes) {
+			const score = `${Math.round(Math.min(note.score, 1) * 100)}%`;
+			text += `\n  ${theme.fg("text", note.title)} ${theme.fg("dim", `[${score}]`)}`;
+			if (options.expanded) {
+				const sections = note.sections.map((s) => s || "(intro)").join(", ");
+				text += `\n    ${theme.fg("dim", relative(getBrainDir(), note.path))}`;
+				if (sections) text += `\n    ${theme.fg("muted", `§ ${sections}`)}`;
+			}
+		}
+
+		if (options.expanded) {
+			for (const path of reused) text += `\n  ${theme.fg("dim", `↺ ${relative(getBrainDir(), path)}`)}`;
+			text += "\n\n" + theme.fg("dim", String(message.content));
+		}
+
+		return new Text(text, 0, 0);
+	});
+
+	pi.registerMessageRenderer<NoteMessageDetails>(NOTE_MESSAGE, (message, options, theme) => {
+		const title = message.details?.title ?? "Note";
+		let text = theme.fg("accent", "🧠 ") + theme.fg("accent", theme.bold("Brain Note")) + " " + theme.fg("text", title);
+		if (message.details?.path) text += `\n  ${theme.fg("dim", relative(getBrainDir(), message.details.path))}`;
+		if (options.expanded) text += "\n\n" + theme.fg("dim", String(message.content));
+		return new Text(text, 0, 0);
+	});
+
 	// ─── Widget & Status Updates ────────────────────────────────────
 
 	function updateWidgets(ctx: ExtensionContext): void {
@@ -925,7 +2242,7 @@ export default function secondBrain(pi: ExtensionAPI): void {
 
 		// Priority widget above editor
 		const priorities = getPriorities();
-		const widgetLines = buildPriorityWidget(priorities, theme);
+		const widgetLines = buildPriorityWidget(priorities, theme, carryWarningDays);
 		if (widgetLines.length > 0) {
 			ctx.ui.setWidget("second-brain-priorities", widgetLines);
 		} else {
@@ -0,0 +1,99 @@
+/**
+ * Extraction Ledger
+ *
+ * Remembers which conversation messages and which extracted items have
+ * already been written to the vault, so repeated agent_end hooks and
+ * overlapping deep extractions don't add the same bullets again. The ledger
+ * is rebuilt from custom session entries, so it lives and dies with the session.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Custom session entry holding ledger additions */
+export const LEDGER_ENTRY = "second-brain-ledger";
+
+export interface LedgerDelta {
+	/** Hashes of messages that have been scanned */
+	messages?: string[];
+	/** Hashes of normalized items that have been written */
+	items?: string[];
+}
+
+type LedgerMessage = {
+	role?: string;
+	content?: unknown;
+	timestamp?: number;
+};
+
+type SessionEntryLike = {
+	type: string;
+	customType?: string;
+	data?: unknown;
+};
+
+function hash(text: string): string {
+	return createHash("sha1").update(text).digest("hex").slice(0, 16);
+}
+
+/** Normalized form of an extracted item: case, punctuation and spacing don't matter */
+export function itemKey(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+function messageKey(message: LedgerMessage): string {
+	return hash(`${message.role ?? ""}\u0000${message.timestamp ?? ""}\u0000${JSON.stringify(message.content ?? "")}`);
+}
+
+export class ExtractionLedger {
+	private messages = new Set<string>();
+	private items = new Set<string>();
+	private pending: Required<LedgerDelta> = { messages: [], items: [] };
+
+	/** Rebuild the ledger from a session's custom entries */
+	static fromEntries(entries: SessionEntryLike[]): ExtractionLedger {
+		const ledger = new ExtractionLedger();
+		for (const entry of entries) {
+			if (entry.type !== "custom" || entry.customType !== LEDGER_ENTRY) continue;
+			const data = (entry.data ?? {}) as LedgerDelta;
+			for (const key of data.messages ?? []) ledger.messages.add(key);
+			for (const key of data.items ?? []) ledger.items.add(key);
+		}
+		return ledger;
+	}
+
+	hasMessage(message: LedgerMessage): boolean {
+		return this.messages.has(messageKey(message));
+	}
+
+	markMessage(message: LedgerMessage): void {
+		const key = messageKey(message);
+		if (this.messages.has(key)) return;
+		this.messages.add(key);
+		this.pending.messages.push(key);
+	}
+
+	hasItem(text: string): boolean {
+		return this.items.has(hash(itemKey(text)));
+	}
+
+	markItem(text: string): void {
+		const key = hash(itemKey(text));
+		if (this.items.has(key)) return;
+		this.items.add(key);
+		this.pending.items.push(key);
+	}
+
+	/** Additions since the last flush, to persist as a session entry */
+	flush(): LedgerDelta | undefined {
+		const { messages, items } = this.pending;
+		if (messages.length === 0 && items.length === 0) return undefined;
+		this.pending = { messages: [], items: [] };
+		return {
+			...(messages.length > 0 ? { messages } : {}),
+			...(items.length > 0 ? { items } : {}),
+		};
+	}
+}
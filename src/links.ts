@@ -0,0 +1,184 @@
+/**
+ * Wiki-links
+ *
+ * Parses `[[note-name]]` links (with optional `#heading` and `|alias`) across
+ * the vault and keeps a link graph with outbound links, backlinks and broken
+ * links. The graph is cached and rebuilt when a note is written or any note
+ * file changes on disk.
+ */
+
+import { readFileSync } from "node:fs";
+import { asString, parseNote } from "./frontmatter.js";
+import { onNoteWritten, PARA_FOLDERS, slugify, vaultFiles, vaultSignature, type ParaCategory } from "./para.js";
+
+export interface WikiLink {
+	/** Link target as written, e.g. "terraform-state" */
+	target: string;
+	heading?: string;
+	alias?: string;
+	/** 1-based line number in the source note */
+	line: number;
+}
+
+export interface LinkNode {
+	path: string;
+	/** Name relative to its category folder, without .md (e.g. "infra/terraform") */
+	name: string;
+	title: string;
+	category: ParaCategory | "daily";
+}
+
+export interface ResolvedLink extends WikiLink {
+	/** Path of the note containing the link */
+	from: string;
+	/** Path of the linked note; undefined when the link is broken */
+	to?: string;
+}
+
+export interface LinkGraph {
+	nodes: Map<string, LinkNode>;
+	outbound: Map<string, ResolvedLink[]>;
+	inbound: Map<string, ResolvedLink[]>;
+	broken: ResolvedLink[];
+}
+
+const WIKI_LINK_RE = /\[\[([^\[\]|#\n]+)(?:#([^\[\]|\n]+))?(?:\|([^\[\]\n]+))?\]\]/g;
+
+/** Extract wiki-links from note content, ignoring code blocks and inline code */
+export function parseWikiLinks(content: string): WikiLink[] {
+	const links: WikiLink[] = [];
+	const lines = content.split("\n");
+	let inFence = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence) continue;
+
+		const text = line.replace(/`[^`]*`/g, "");
+		for (const m of text.matchAll(WIKI_LINK_RE)) {
+			links.push({
+				target: m[1].trim(),
+				heading: m[2]?.trim() || undefined,
+				alias: m[3]?.trim() || undefined,
+				line: i + 1,
+			});
+		}
+	}
+	return links;
+}
+
+/** Lookup tables for resolving link targets, most specific first */
+function buildResolver(nodes: Iterable<LinkNode>): (target: string) => string | undefined {
+	const byName = new Map<string, string>();
+	const byBase = new Map<string, string>();
+	const byTitle = new Map<string, string>();
+	const bySlug = new Map<string, string>();
+
+	for (const node of nodes) {
+		const base = node.name.split("/").pop() ?? node.name;
+		byName.set(node.name.toLowerCase(), node.path);
+		const folder = node.category === "daily" ? "daily" : PARA_FOLDERS[node.category];
+		byName.set(`${folder}/${node.name}`.toLowerCase(), node.path);
+		if (!byBase.has(base.toLowerCase())) byBase.set(base.toLowerCase(), node.path);
+		if (!byTitle.has(node.title.toLowerCase())) byTitle.set(node.title.toLowerCase(), node.path);
+		const slug = slugify(node.title);
+		if (slug && !bySlug.has(slug)) bySlug.set(slug, node.path);
+	}
+
+	return (target: string) => {
+		const key = target.replace(/\.md$/, "").toLowerCase();
+		return byName.get(key) ?? byBase.get(key) ?? byTitle.get(key) ?? bySlug.get(slugify(target));
+	};
+}
+
+/** Scan the active vault and build the full link graph */
+export function buildLinkGraph(): LinkGraph {
+	const nodes = new Map<string, LinkNode>();
+	const contents = new Map<string, string>();
+
+	for (const file of vaultFiles()) {
+		const content = readFileSync(file.path, "utf-8");
+		const { data, body } = parseNote(content);
+		const title = asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1]?.trim() || file.name;
+		nodes.set(file.path, { path: file.path, name: file.name, title, category: file.category });
+		contents.set(file.path, content);
+	}
+
+	const resolve = buildResolver(nodes.values());
+	const outbound = new Map<string, ResolvedLink[]>();
+	const inbound = new Map<string, ResolvedLink[]>();
+	const broken: ResolvedLink[] = [];
+
+	for (const [path, content] of contents) {
+		const links = parseWikiLinks(content).map((l) => ({ ...l, from: path, to: resolve(l.target) }));
+		outbound.set(path, links);
+		for (const link of links) {
+			if (!link.to) {
+				broken.push(link);
+				continue;
+			}
+			const list = inbound.get(link.to) ?? [];
+			list.push(link);
+			inbound.set(link.to, list);
+		}
+	}
+
+	return { nodes, outbound, inbound, broken };
+}
+
+let cachedGraph: LinkGraph | undefined;
+let cachedSignature: string | undefined;
+
+/** The link graph for the active vault, rebuilt only when notes changed */
+export function getLinkGraph(): LinkGraph {
+	const signature = vaultSignature();
+	if (!cachedGraph || signature !== cachedSignature) {
+		cachedGraph = buildLinkGraph();
+		cachedSignature = signature;
+	}
+	return cachedGraph;
+}
+
+onNoteWritten(() => {
+	cachedGraph = undefined;
+});
+
+/** Find a note in the graph by name, title or path */
+export function findLinkNode(graph: LinkGraph, query: string): LinkNode | undefined {
+	if (graph.nodes.has(query)) return graph.nodes.get(query);
+	const path = buildResolver(graph.nodes.values())(query);
+	return path ? graph.nodes.get(path) : undefined;
+}
+
+export interface Neighborhood {
+	node: LinkNode;
+	outbound: Array<{ link: ResolvedLink; node?: LinkNode }>;
+	inbound: Array<{ link: ResolvedLink; node: LinkNode }>;
+}
+
+/** Direct inbound and outbound neighbors of a note */
+export function getNeighborhood(graph: LinkGraph, path: string): Neighborhood | undefined {
+	const node = graph.nodes.get(path);
+	if (!node) return undefined;
+
+	const outbound = (graph.outbound.get(path) ?? []).map((link) => ({
+		link,
+		node: link.to ? graph.nodes.get(link.to) : undefined,
+	}));
+
+	// Several links from the same note count once as a backlink
+	const seen = new Set<string>();
+	const inbound: Neighborhood["inbound"] = [];
+	for (const link of graph.inbound.get(path) ?? []) {
+		if (seen.has(link.from)) continue;
+		seen.add(link.from);
+		const from = graph.nodes.get(link.from);
+		if (from) inbound.push({ link, node: from });
+	}
+
+	return { node, outbound, inbound };
+}
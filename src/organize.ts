@@ -0,0 +1,215 @@
+/**
+ * Organizing Notes
+ *
+ * Moving, retitling, merging, deleting and snoozing notes. Every operation
+ * works on the filesystem directly, never overwrites an existing note, and
+ * records an undo entry: the before/after content of each file it touched.
+ * Undo restores the "before" side, but only if the files still look exactly
+ * like the "after" side, so later edits are never clobbered. The undo log
+ * lives under ~/.pi/agent, not in the vault, so deleted notes don't end up
+ * in the vault's git history.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, relative } from "node:path";
+import { UNDO_DIR } from "./config.js";
+import { asString, parseNote, serializeNote, type Frontmatter } from "./frontmatter.js";
+import { datedNoteId, getBrainDir, paraDir, removeNote, slugify, writeNote, type ParaCategory } from "./para.js";
+import { appendToSectionContent } from "./sections.js";
+import { addDays, today } from "./dates.js";
+
+/** Where older versions kept the undo log, inside the vault */
+const LEGACY_UNDO_FILE = ".undo.json";
+const UNDO_LIMIT = 20;
+
+/** One file touched by an operation; null content means the file didn't exist */
+export interface FileChange {
+	path: string;
+	before: string | null;
+	after: string | null;
+}
+
+export interface UndoEntry {
+	/** What happened, e.g. "Moved Foo to projects/infra" */
+	label: string;
+	at: string;
+	changes: FileChange[];
+}
+
+export type OrganizeResult = { ok: true; path?: string; label: string } | { ok: false; reason: string };
+
+/** Undo log of the active vault, named after a hash of its path */
+function undoPath(): string {
+	const id = createHash("sha1").update(getBrainDir()).digest("hex").slice(0, 12);
+	return join(UNDO_DIR, `${basename(getBrainDir())}-${id}.json`);
+}
+
+export function readUndoLog(): UndoEntry[] {
+	const legacy = join(getBrainDir(), LEGACY_UNDO_FILE);
+	const path = existsSync(undoPath()) || !existsSync(legacy) ? undoPath() : legacy;
+	try {
+		return JSON.parse(readFileSync(path, "utf-8")) as UndoEntry[];
+	} catch {
+		return [];
+	}
+}
+
+function writeUndoLog(entries: UndoEntry[]): void {
+	mkdirSync(UNDO_DIR, { recursive: true });
+	writeFileSync(undoPath(), JSON.stringify(entries.slice(-UNDO_LIMIT), null, "\t") + "\n", "utf-8");
+	// The log has moved out of the vault; don't leave the old copy to be committed again
+	rmSync(join(getBrainDir(), LEGACY_UNDO_FILE), { force: true });
+}
+
+function current(path: string): string | null {
+	return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+/** Apply file changes (after side) and record them for undo */
+function apply(label: string, changes: FileChange[]): OrganizeResult {
+	for (const change of changes) {
+		if (change.after === null) removeNote(change.path);
+		else writeNote(change.path, change.after);
+	}
+	writeUndoLog([...readUndoLog(), { label, at: new Date().toISOString(), changes }]);
+	const created = changes.find((c) => c.before === null && c.after !== null);
+	return { ok: true, path: created?.path ?? changes[0]?.path, label };
+}
+
+/** Revert the most recent operation, if its files haven't changed since */
+export function undoLast(): OrganizeResult {
+	const log = readUndoLog();
+	const entry = log.at(-1);
+	if (!entry) return { ok: false, reason: "Nothing to undo" };
+
+	const changed = entry.changes.filter((c) => current(c.path) !== c.after);
+	if (changed.length > 0) {
+		const names = changed.map((c) => relative(getBrainDir(), c.path)).join(", ");
+		return { ok: false, reason: `Can't undo "${entry.label}": ${names} changed since` };
+	}
+
+	for (const change of entry.changes) {
+		if (change.before === null) removeNote(change.path);
+		else writeNote(change.path, change.before);
+	}
+	writeUndoLog(log.slice(0, -1));
+	return { ok: true, path: entry.changes[0]?.path, label: `Undid: ${entry.label}` };
+}
+
+function vaultRelative(path: string): string {
+	return relative(getBrainDir(), path);
+}
+
+export interface MoveOptions {
+	/** New file name (default: keep the current one) */
+	fileName?: string;
+	/** Change the content on the way, e.g. to update frontmatter */
+	edit?: (content: string) => string;
+	/** Undo label (default: "Moved <file> to <dir>") */
+	label?: string;
+}
+
+/**
+ * Move a note into a directory, optionally renaming or editing it.
+ * Refuses when a note with that name is already there.
+ */
+export function moveNote(path: string, targetDir: string, options: MoveOptions = {}): OrganizeResult {
+	const target = join(targetDir, options.fileName ?? basename(path));
+	if (target === path) return { ok: false, reason: "Note is already there" };
+	if (existsSync(target)) return { ok: false, reason: `${vaultRelative(target)} already exists` };
+
+	const content = readFileSync(path, "utf-8");
+	return apply(options.label ?? `Moved ${basename(path)} to ${vaultRelative(targetDir)}`, [
+		{ path: target, before: null, after: options.edit ? options.edit(content) : content },
+		{ path, before: content, after: null },
+	]);
+}
+
+/** Change a note in place (recorded for undo) */
+export function editNote(path: string, edit: (content: string) => string, label: string): OrganizeResult {
+	const content = readFileSync(path, "utf-8");
+	const updated = edit(content);
+	if (updated === content) return { ok: false, reason: "Nothing changed" };
+	return apply(label, [{ path, before: content, after: updated }]);
+}
+
+/** Subfolders of a category, e.g. one per project, as paths relative to the category */
+export function listSubfolders(category: ParaCategory): string[] {
+	const dir = paraDir(category);
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir, { withFileTypes: true })
+		.filter((e) => e.isDirectory() && !e.name.startsWith("."))
+		.map((e) => e.name)
+		.sort();
+}
+
+/** Set a note's title (frontmatter and H1) and rename its file to match */
+export function retitleNote(path: string, title: string): OrganizeResult {
+	// Titles without letters or digits (e.g. "🚀 ???") get a dated name, as in findNoteSlot
+	const slug = slugify(title) || datedNoteId();
+
+	const content = readFileSync(path, "utf-8");
+	const note = parseNote(content);
+	if (note.hasFrontmatter) note.data.title = title;
+	note.body = /^#\s+.+$/m.test(note.body) ? note.body.replace(/^#\s+.+$/m, `# ${title}`) : `# ${title}\n\n${note.body}`;
+	const updated = serializeNote(note);
+
+	const target = join(dirname(path), `${slug}.md`);
+	if (target !== path && existsSync(target)) {
+		return { ok: false, reason: `${vaultRelative(target)} already exists` };
+	}
+
+	const label = `Retitled ${basename(path)} to "${title}"`;
+	if (target === path) return apply(label, [{ path, before: content, after: updated }]);
+	return apply(label, [
+		{ path: target, before: null, after: updated },
+		{ path, before: content, after: null },
+	]);
+}
+
+/** Append a note's body to another note as a new section, then delete it */
+export function mergeNote(path: string, targetPath: string): OrganizeResult {
+	if (path === targetPath) return { ok: false, reason: "Can't merge a note into itself" };
+
+	const content = readFileSync(path, "utf-8");
+	const target = readFileSync(targetPath, "utf-8");
+	const { data, body } = parseNote(content);
+	const title = asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1]?.trim() || basename(path, ".md");
+	const text = body.replace(/^#\s+.+\n*/m, "").trim() || "*(empty)*";
+
+	return apply(`Merged ${basename(path)} into ${basename(targetPath)}`, [
+		{ path: targetPath, before: target, after: appendToSectionContent(target, title, text) },
+		{ path, before: content, after: null },
+	]);
+}
+
+export function deleteNote(path: string): OrganizeResult {
+	return apply(`Deleted ${basename(path)}`, [{ path, before: readFileSync(path, "utf-8"), after: null }]);
+}
+
+/** Hide a note from review until a day (YYYY-MM-DD) */
+export function snoozeNote(path: string, until: string): OrganizeResult {
+	const content = readFileSync(path, "utf-8");
+	const note = parseNote(content);
+	note.data.snoozed_until = until;
+	return apply(`Snoozed ${basename(path)} until ${until}`, [{ path, before: content, after: serializeNote(note) }]);
+}
+
+export const SNOOZE_OPTIONS: Array<{ label: string; days: number }> = [
+	{ label: "Tomorrow", days: 1 },
+	{ label: "3 days", days: 3 },
+	{ label: "1 week", days: 7 },
+	{ label: "1 month", days: 30 },
+];
+
+/** Day a snooze of `days` ends */
+export function snoozeUntil(days: number, day: string = today()): string {
+	return addDays(day, days);
+}
+
+/** Whether a note is snoozed past a day */
+export function isSnoozed(frontmatter: Frontmatter, day: string = today()): boolean {
+	const until = frontmatter.snoozed_until;
+	return typeof until === "string" && until > day;
+}
@@ -4,28 +4,56 @@
  * Utilities for organizing knowledge into the PARA structure.
  */
 
-import { existsSync, mkdirSync, readdirSync, readFileSync, statSync } from "node:fs";
-import { basename, join } from "node:path";
-
-export const BRAIN_DIR = join(process.env.HOME ?? "~", "second-brain");
-export const INBOX_DIR = join(BRAIN_DIR, "0-inbox");
-export const PROJECTS_DIR = join(BRAIN_DIR, "1-projects");
-export const AREAS_DIR = join(BRAIN_DIR, "2-areas");
-export const RESOURCES_DIR = join(BRAIN_DIR, "3-resources");
-export const ARCHIVE_DIR = join(BRAIN_DIR, "4-archive");
-export const DAILY_DIR = join(BRAIN_DIR, "daily");
-export const TEMPLATES_DIR = join(BRAIN_DIR, "templates");
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, relative } from "node:path";
+import { DEFAULT_BRAIN_DIR } from "./config.js";
+import { fileStamp } from "./dates.js";
+import { asString, asStringList, parseNote, type Frontmatter } from "./frontmatter.js";
 
 export type ParaCategory = "inbox" | "projects" | "areas" | "resources" | "archive";
 
-export const PARA_DIRS: Record<ParaCategory, string> = {
-	inbox: INBOX_DIR,
-	projects: PROJECTS_DIR,
-	areas: AREAS_DIR,
-	resources: RESOURCES_DIR,
-	archive: ARCHIVE_DIR,
+export const PARA_FOLDERS: Record<ParaCategory, string> = {
+	inbox: "0-inbox",
+	projects: "1-projects",
+	areas: "2-areas",
+	resources: "3-resources",
+	archive: "4-archive",
 };
 
+/** Root of the active vault. Switched by setBrainDir() when the vault changes. */
+let brainDir = DEFAULT_BRAIN_DIR;
+
+/** Root directory of the active vault */
+export function getBrainDir(): string {
+	return brainDir;
+}
+
+/** Point every path helper at a different vault root */
+export function setBrainDir(dir: string): void {
+	brainDir = dir;
+}
+
+/** Directory for a PARA category in the active vault */
+export function paraDir(category: ParaCategory): string {
+	return join(brainDir, PARA_FOLDERS[category]);
+}
+
+export function getDailyDir(): string {
+	return join(brainDir, "daily");
+}
+
+export function getWeeklyDir(): string {
+	return join(brainDir, "weekly");
+}
+
+export function getMonthlyDir(): string {
+	return join(brainDir, "monthly");
+}
+
+export function getTemplatesDir(): string {
+	return join(brainDir, "templates");
+}
+
 export const PARA_ICONS: Record<ParaCategory, string> = {
 	inbox: "📥",
 	projects: "📦",
@@ -40,20 +68,130 @@ export interface NoteInfo {
 	title: string;
 	category: ParaCategory;
 	modified: Date;
+	created?: string;
+	status?: string;
+	tags: string[];
+	project?: string;
+	/** All frontmatter keys, including custom ones */
+	frontmatter: Frontmatter;
 }
 
 /** Ensure all PARA directories exist */
 export function ensureDirs(): void {
-	for (const dir of Object.values(PARA_DIRS)) {
-		mkdirSync(dir, { recursive: true });
+	for (const category of Object.keys(PARA_FOLDERS) as ParaCategory[]) {
+		mkdirSync(paraDir(category), { recursive: true });
 	}
-	mkdirSync(DAILY_DIR, { recursive: true });
-	mkdirSync(TEMPLATES_DIR, { recursive: true });
+	mkdirSync(getDailyDir(), { recursive: true });
+	mkdirSync(getTemplatesDir(), { recursive: true });
+}
+
+type NoteWriteListener = (path: string) => void;
+
+const noteWriteListeners = new Set<NoteWriteListener>();
+
+/** Subscribe to note writes made through writeNote(). Returns an unsubscribe function. */
+export function onNoteWritten(listener: NoteWriteListener): () => void {
+	noteWriteListeners.add(listener);
+	return () => noteWriteListeners.delete(listener);
+}
+
+/** Tell listeners a note changed on disk, e.g. after an external editor saved it */
+export function notifyNoteChanged(path: string): void {
+	for (const listener of noteWriteListeners) {
+		try {
+			listener(path);
+		} catch {
+			// A broken listener must never block a write
+		}
+	}
+}
+
+/** Write a note to disk and notify listeners (e.g. the search index) */
+export function writeNote(path: string, content: string): void {
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, content, "utf-8");
+	notifyNoteChanged(path);
+}
+
+/** Delete a note from disk and notify listeners */
+export function removeNote(path: string): void {
+	rmSync(path, { force: true });
+	notifyNoteChanged(path);
+}
+
+/** Recursively yield every markdown file under dir (skipping dotfiles) */
+export function* walkMarkdown(dir: string): Generator<string> {
+	if (!existsSync(dir)) return;
+	for (const entry of readdirSync(dir, { withFileTypes: true })) {
+		if (entry.name.startsWith(".")) continue;
+		const full = join(dir, entry.name);
+		if (entry.isDirectory()) yield* walkMarkdown(full);
+		else if (entry.isFile() && entry.name.endsWith(".md")) yield full;
+	}
+}
+
+/** Where a note lives: a PARA category or one of the dated-note folders */
+export type NoteCategory = ParaCategory | "daily" | "weekly" | "monthly";
+
+/** Category of a note path in the active vault, or undefined for anything else */
+export function categoryOf(path: string): NoteCategory | undefined {
+	const folder = relative(brainDir, path).split(/[\\/]/)[0];
+	const para = (Object.keys(PARA_FOLDERS) as ParaCategory[]).find((c) => PARA_FOLDERS[c] === folder);
+	if (para) return para;
+	return (["daily", "weekly", "monthly"] as const).find((f) => f === folder);
+}
+
+export interface VaultFile {
+	path: string;
+	/** Name relative to its category folder, without .md (e.g. "infra/terraform") */
+	name: string;
+	category: ParaCategory | "daily";
+}
+
+/** Every note in the active vault: all PARA folders plus daily notes */
+export function vaultFiles(): VaultFile[] {
+	const files: VaultFile[] = [];
+	for (const category of Object.keys(PARA_FOLDERS) as ParaCategory[]) {
+		const dir = paraDir(category);
+		for (const path of walkMarkdown(dir)) {
+			files.push({ path, name: relative(dir, path).replace(/\.md$/, ""), category });
+		}
+	}
+	for (const path of walkMarkdown(getDailyDir())) {
+		files.push({ path, name: relative(getDailyDir(), path).replace(/\.md$/, ""), category: "daily" });
+	}
+	return files;
+}
+
+/** Cheap fingerprint of the vault: root plus every note's path and mtime */
+export function vaultSignature(): string {
+	const parts = [brainDir];
+	for (const file of vaultFiles()) parts.push(`${file.path}:${statSync(file.path).mtimeMs}`);
+	return parts.join("\n");
+}
+
+/** Read a note file into a NoteInfo */
+export function readNoteInfo(path: string, name: string, category: ParaCategory): NoteInfo {
+	const stat = statSync(path);
+	const { data, body } = parseNote(readFileSync(path, "utf-8"));
+	const titleMatch = body.match(/^#\s+(.+)$/m);
+	return {
+		path,
+		name,
+		title: asString(data.title) || titleMatch?.[1] || basename(name),
+		category,
+		modified: stat.mtime,
+		created: asString(data.created ?? data.captured ?? data.date),
+		status: asString(data.status),
+		tags: asStringList(data.tags),
+		project: asString(data.project),
+		frontmatter: data,
+	};
 }
 
 /** List notes in a PARA category */
 export function listNotes(category: ParaCategory): NoteInfo[] {
-	const dir = PARA_DIRS[category];
+	const dir = paraDir(category);
 	if (!existsSync(dir)) return [];
 
 	const notes: NoteInfo[] = [];
@@ -61,34 +199,16 @@ export function listNotes(category: ParaCategory): NoteInfo[] {
 
 	for (const entry of entries) {
 		if (entry.isFile() && entry.name.endsWith(".md")) {
-			const fullPath = join(dir, entry.name);
-			const stat = statSync(fullPath);
-			const content = readFileSync(fullPath, "utf-8");
-			const titleMatch = content.match(/^#\s+(.+)$/m);
-			notes.push({
-				path: fullPath,
-				name: entry.name.replace(/\.md$/, ""),
-				title: titleMatch?.[1] ?? entry.name.replace(/\.md$/, ""),
-				category,
-				modified: stat.mtime,
-			});
+			notes.push(readNoteInfo(join(dir, entry.name), entry.name.replace(/\.md$/, ""), category));
 		} else if (entry.isDirectory()) {
 			// Check for subdirectory notes
 			const subDir = join(dir, entry.name);
 			const subEntries = readdirSync(subDir, { withFileTypes: true });
 			for (const sub of subEntries) {
 				if (sub.isFile() && sub.name.endsWith(".md")) {
-					const fullPath = join(subDir, sub.name);
-					const stat = statSync(fullPath);
-					const content = readFileSync(fullPath, "utf-8");
-					const titleMatch = content.match(/^#\s+(.+)$/m);
-					notes.push({
-						path: fullPath,
-						name: `${entry.name}/${sub.name.replace(/\.md$/, "")}`,
-						title: titleMatch?.[1] ?? sub.name.replace(/\.md$/, ""),
-						category,
-						modified: stat.mtime,
-					});
+					notes.push(
+						readNoteInfo(join(subDir, sub.name), `${entry.name}/${sub.name.replace(/\.md$/, "")}`, category)
+					);
 				}
 			}
 		}
@@ -108,20 +228,67 @@ export function getCounts(): Record<ParaCategory, number> {
 	};
 }
 
-/** Slugify a title for use as filename */
+// Letters that don't decompose into base + accent under NFKD
+const TRANSLITERATIONS: Record<string, string> = {
+	ß: "ss",
+	æ: "ae",
+	œ: "oe",
+	ø: "o",
+	đ: "d",
+	ł: "l",
+	þ: "th",
+	ð: "d",
+};
+
+/**
+ * Slugify a title for use as filename. Accents on Latin letters are
+ * transliterated (café → cafe); other scripts are kept as-is (日本語メモ stays).
+ * Returns "" when nothing usable remains (e.g. an emoji-only title).
+ */
 export function slugify(title: string): string {
-	return title
+	const slug = title
 		.toLowerCase()
-		.replace(/[^a-z0-9]+/g, "-")
-		.replace(/^-|-$/g, "")
-		.slice(0, 60);
-}
-
-/** Detect project from a working directory path */
-export function detectProject(cwd: string): string | undefined {
-	const dirName = basename(cwd);
-	const projects = listNotes("projects");
-	// Try exact match on slugified directory name
-	const match = projects.find((p) => p.name === dirName || slugify(p.title) === slugify(dirName));
-	return match?.name;
+		.replace(/[ßæœøđłþð]/g, (ch) => TRANSLITERATIONS[ch] ?? ch)
+		.normalize("NFKD")
+		.replace(/([a-z])\p{M}+/gu, "$1")
+		.normalize("NFC")
+		.replace(/[^\p{L}\p{N}]+/gu, "-")
+		.replace(/^-|-$/g, "");
+	// Slice by code point so a multi-unit character is never cut in half
+	return Array.from(slug).slice(0, 60).join("").replace(/-$/, "");
+}
+
+/** Dated fallback id for titles that produce an empty slug */
+export function datedNoteId(now: Date = new Date()): string {
+	return `note-${fileStamp(now)}`;
+}
+
+export interface NoteSlot {
+	/** First free path for a new note with this title */
+	path: string;
+	/** Path of an existing note that already has this exact title, if any */
+	existing?: string;
+}
+
+/**
+ * Find where a new note titled `title` should go in `dir`.
+ * `slug.md` is used when free; otherwise `slug-2.md`, `slug-3.md`, ...
+ * A file that already carries the same title is reported as `existing`
+ * so the caller can merge, ask or skip instead of writing a duplicate.
+ */
+export function findNoteSlot(dir: string, title: string, now: Date = new Date()): NoteSlot {
+	const base = slugify(title) || datedNoteId(now);
+	const wanted = title.trim().toLowerCase();
+	let existing: string | undefined;
+
+	for (let i = 1; ; i++) {
+		const path = join(dir, `${i === 1 ? base : `${base}-${i}`}.md`);
+		if (!existsSync(path)) return { path, existing };
+		if (!existing && readNoteTitle(path).toLowerCase() === wanted) existing = path;
+	}
+}
+
+function readNoteTitle(path: string): string {
+	const { data, body } = parseNote(readFileSync(path, "utf-8"));
+	return (asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1] || "").trim();
 }
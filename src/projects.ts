@@ -0,0 +1,158 @@
+/**
+ * Project Lifecycle
+ *
+ * Projects carry a `status` (active, paused, done) in frontmatter and a
+ * last-activity date derived from the vault: captures tagged with the
+ * project, dated Progress entries in the project note, and daily Log lines
+ * that mention it. Projects without recent activity are offered for
+ * archiving in /review, and archived projects can be restored.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { asString, parseNote, serializeNote } from "./frontmatter.js";
+import { daysBetween, today } from "./dates.js";
+import { getDailyDir, listNotes, paraDir, slugify, type NoteInfo, type ParaCategory } from "./para.js";
+import { editNote, moveNote, type OrganizeResult } from "./organize.js";
+import { readSection } from "./sections.js";
+
+export const PROJECT_STATUSES = ["active", "paused", "done"] as const;
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export interface ProjectInfo {
+	note: NoteInfo;
+	status: ProjectStatus;
+	/** Most recent day with activity (YYYY-MM-DD), if any was found */
+	lastActivity?: string;
+}
+
+/** A project's status; missing or unknown values count as active */
+export function projectStatus(note: NoteInfo): ProjectStatus {
+	const status = note.status?.toLowerCase();
+	return (PROJECT_STATUSES as readonly string[]).includes(status ?? "") ? (status as ProjectStatus) : "active";
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Names a project goes by: file name, title and their slugs */
+function projectNames(note: NoteInfo): string[] {
+	const base = note.name.split("/").pop() ?? note.name;
+	return [...new Set([base, note.title, slugify(note.title)].filter(Boolean))];
+}
+
+/** Days with activity for each project, keyed by project note path */
+function collectActivity(projects: NoteInfo[]): Map<string, string[]> {
+	const activity = new Map<string, string[]>(projects.map((p) => [p.path, []]));
+	const add = (path: string, day: string | undefined) => {
+		if (day && /^\d{4}-\d{2}-\d{2}/.test(day)) activity.get(path)?.push(day.slice(0, 10));
+	};
+
+	const matchers = projects.map((p) => ({
+		path: p.path,
+		names: projectNames(p).map((n) => n.toLowerCase()),
+		mention: new RegExp(`(^|[^\\p{L}\\p{N}])(${projectNames(p).map(escapeRegExp).join("|")})([^\\p{L}\\p{N}]|$)`, "iu"),
+	}));
+
+	// Dated Progress entries ("- 2026-10-19: ...") in the project note itself
+	for (const project of projects) {
+		const progress = readSection(readFileSync(project.path, "utf-8"), "Progress") ?? "";
+		for (const m of progress.matchAll(/^\s*[-*]\s+(\d{4}-\d{2}-\d{2})\b/gm)) add(project.path, m[1]);
+	}
+
+	// Captures tagged with the project, or filed in its subfolder
+	for (const category of ["inbox", "projects", "areas", "resources"] as ParaCategory[]) {
+		for (const note of listNotes(category)) {
+			const tagged = note.project?.toLowerCase();
+			const folder = category === "projects" && note.name.includes("/") ? note.name.split("/")[0] : undefined;
+			for (const m of matchers) {
+				if (note.path === m.path) continue;
+				if ((tagged && m.names.includes(tagged)) || (folder && m.names.includes(folder.toLowerCase()))) {
+					add(m.path, note.created ?? note.modified.toISOString());
+				}
+			}
+		}
+	}
+
+	// Daily Log lines mentioning the project
+	const dailyDir = getDailyDir();
+	if (existsSync(dailyDir)) {
+		for (const file of readdirSync(dailyDir).filter((f) => /^\d{4}-\d{2}-\d{2}\.md$/.test(f))) {
+			const log = readSection(readFileSync(join(dailyDir, file), "utf-8"), "Log") ?? "";
+			for (const m of matchers) {
+				if (m.mention.test(log)) add(m.path, file.slice(0, 10));
+			}
+		}
+	}
+
+	return activity;
+}
+
+/** Every project with its status and last activity */
+export function listProjects(): ProjectInfo[] {
+	const notes = listNotes("projects").filter((n) => !isSubfolderCapture(n));
+	const activity = collectActivity(notes);
+	return notes.map((note) => {
+		const days = [...(activity.get(note.path) ?? []), ...(note.created ? [note.created.slice(0, 10)] : [])];
+		return { note, status: projectStatus(note), lastActivity: days.sort().pop() };
+	});
+}
+
+/** Notes in a project's subfolder are material for that project, not projects of their own */
+function isSubfolderCapture(note: NoteInfo): boolean {
+	if (!note.name.includes("/")) return false;
+	const folder = note.name.split("/")[0];
+	return existsSync(join(paraDir("projects"), `${folder}.md`));
+}
+
+/** Days since a project's last activity, or undefined if it never had any */
+export function daysIdle(project: ProjectInfo, day: string = today()): number | undefined {
+	return project.lastActivity ? daysBetween(project.lastActivity, day) : undefined;
+}
+
+/** Active or paused projects idle for at least `days` days, longest idle first */
+export function staleProjects(projects: ProjectInfo[], days: number, day: string = today()): ProjectInfo[] {
+	return projects
+		.filter((p) => p.status !== "done" && (daysIdle(p, day) ?? Infinity) >= days)
+		.sort((a, b) => (a.lastActivity ?? "").localeCompare(b.lastActivity ?? ""));
+}
+
+/** Edit that sets frontmatter fields (undefined removes a field) */
+function withFields(fields: Record<string, string | undefined>): (content: string) => string {
+	return (content) => {
+		const note = parseNote(content);
+		for (const [key, value] of Object.entries(fields)) {
+			if (value === undefined) delete note.data[key];
+			else note.data[key] = value;
+		}
+		return serializeNote(note);
+	};
+}
+
+/** Set a project's status in its frontmatter (recorded for undo) */
+export function setProjectStatus(note: NoteInfo, status: ProjectStatus): OrganizeResult {
+	return editNote(note.path, withFields({ status }), `Marked ${note.title} as ${status}`);
+}
+
+/** Move a project to the archive, keeping its subfolder, and stamp the day */
+export function archiveProject(note: NoteInfo, status?: ProjectStatus): OrganizeResult {
+	return moveNote(note.path, join(paraDir("archive"), dirname(note.name)), {
+		edit: withFields({ archived: today(), ...(status ? { status } : {}) }),
+		label: `Archived ${note.title}`,
+	});
+}
+
+/** Archived notes that were projects (they carry a status) */
+export function listArchivedProjects(): NoteInfo[] {
+	return listNotes("archive").filter((n) => n.status !== undefined || asString(n.frontmatter.archived) !== undefined);
+}
+
+/** Bring an archived project back to projects/ as active */
+export function restoreProject(note: NoteInfo): OrganizeResult {
+	const folder = relative(paraDir("archive"), dirname(note.path));
+	return moveNote(note.path, join(paraDir("projects"), folder), {
+		edit: withFields({ status: "active", archived: undefined }),
+		label: `Restored ${note.title}`,
+	});
+}
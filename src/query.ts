@@ -0,0 +1,120 @@
+/**
+ * Query Building
+ *
+ * Turns a free-form prompt — often with pasted code, stack traces and
+ * conversational filler — into search queries: a short keyword query of
+ * error signatures, file names and key terms for keyword search, and the
+ * cleaned-up prose for semantic search.
+ */
+
+import { tokenize } from "./search.js";
+
+export interface SearchQuery {
+	/** Space-separated keywords for keyword (BM25) search */
+	keywords: string;
+	/** Natural-language text for semantic and hybrid search */
+	natural: string;
+}
+
+export interface QueryParts {
+	/** Error signatures, e.g. "TypeError: Cannot read properties of undefined" */
+	errors: string[];
+	/** File names mentioned anywhere, including in stack traces */
+	files: string[];
+	/** Key terms from the prose, in order of first appearance */
+	terms: string[];
+}
+
+const MAX_TERMS = 12;
+const MAX_KEYWORDS = 20;
+const MAX_NATURAL_CHARS = 500;
+
+/** Conversational words that say nothing about the topic */
+const FILLER = new Set(
+	(
+		"please can could would should shall may might must help me my mine want wanted need needs like just know tell " +
+		"show get got make let lets us our also some any about there here then than do does did done so very really " +
+		"thing things something anything way use using used work working works try trying tried again still now ok okay " +
+		"hey hi thanks thank look looks see seems seem issue problem question sure yes no not don doesn didn isn figure out"
+	).split(" ")
+);
+
+const FENCE_RE = /```[^\n]*\n?([\s\S]*?)(?:```|$)/g;
+const URL_RE = /\bhttps?:\/\/\S+/g;
+const ERROR_RE = /\b([A-Z][A-Za-z0-9]*(?:Error|Exception))\b(?::[ \t]*([^\n]*))?/g;
+const ERROR_CODE_RE = /\b(E[A-Z]{3,}|ERR_[A-Z0-9_]+|TS\d{4})\b/g;
+const FILE_RE =
+	/(?:^|[\s"'`(\[<])((?:[\w@.-]+[\\/])*[\w@-][\w.@-]*\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|py|go|rs|java|kt|rb|php|cs|c|h|cpp|sh|yml|yaml|toml|tf|css|scss|html|sql|vue|svelte))(?=[\s"'`)\]>:,;.?!]|$)/gm;
+/** Stack frames and compiler pointers: useful for file names only */
+const TRACE_LINE_RE = /^\s*(?:at\s|File\s"|Traceback\b|\^+\s*$|\d+\s*\|)/;
+
+/** Error message with volatile bits (quoted values, paths, numbers) removed */
+function errorMessage(message: string): string {
+	return message
+		.replace(/\([^)]*\)/g, "")
+		.replace(/(['"`]).*?\1/g, "")
+		.replace(/\S*[\\/]\S*/g, "")
+		.replace(/\b\d+\b/g, "")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 80);
+}
+
+function unique(items: string[]): string[] {
+	return [...new Set(items.filter(Boolean))];
+}
+
+/** Pull error signatures, file names and key terms out of a prompt */
+export function extractQueryParts(prompt: string): QueryParts {
+	const errors = unique([
+		...[...prompt.matchAll(ERROR_RE)].map((m) => {
+			const message = errorMessage(m[2] ?? "");
+			return message ? `${m[1]}: ${message}` : m[1];
+		}),
+		...[...prompt.matchAll(ERROR_CODE_RE)].map((m) => m[1]),
+	]);
+
+	const paths = [...prompt.matchAll(FILE_RE)].map((m) => m[1]);
+	const files = unique(paths.map((p) => p.split(/[\\/]/).pop() ?? p));
+
+	const prose = proseOf(prompt);
+	const fileTerms = new Set(paths.flatMap((p) => tokenize(p)));
+	const terms = unique(
+		tokenize(prose).filter((t) => !FILLER.has(t) && !/^\d+$/.test(t) && !fileTerms.has(t))
+	).slice(0, MAX_TERMS);
+
+	return { errors, files, terms };
+}
+
+/** The prompt without code blocks, stack frames and URLs */
+function proseOf(prompt: string): string {
+	return prompt
+		.replace(FENCE_RE, "")
+		.replace(URL_RE, "")
+		.split("\n")
+		.filter((line) => !TRACE_LINE_RE.test(line))
+		.join("\n");
+}
+
+/** Build keyword and natural-language queries from a prompt */
+export function buildQuery(prompt: string): SearchQuery {
+	const parts = extractQueryParts(prompt);
+	// Error names and codes verbatim, then the distinctive words of their messages
+	const names = parts.errors.map((e) => e.split(":")[0]);
+	const messageTerms = parts.errors.flatMap((e) => tokenize(e.split(":").slice(1).join(" ")));
+	const seen = new Set<string>();
+	const keywords = [...names, ...parts.files, ...messageTerms, ...parts.terms]
+		.filter((w) => {
+			const key = w.toLowerCase();
+			if (FILLER.has(key) || seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.slice(0, MAX_KEYWORDS)
+		.join(" ");
+
+	const prose = proseOf(prompt).replace(/`/g, "").replace(/\s+/g, " ").trim();
+	const natural = (prose || [...parts.errors, ...parts.files].join(" ")).slice(0, MAX_NATURAL_CHARS);
+
+	return { keywords: keywords || natural, natural: natural || keywords };
+}
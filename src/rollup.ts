@@ -0,0 +1,213 @@
+/**
+ * Weekly and Monthly Rollups
+ *
+ * Summarizes the daily notes of a period into `weekly/YYYY-Www.md` or
+ * `monthly/YYYY-MM.md`: completed priorities, decisions, learnings and
+ * session summaries, plus an optional narrative written by a model.
+ * Rollups are regenerated from the dailies each time; a `## Notes`
+ * section and an existing narrative survive regeneration.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { buildNote } from "./frontmatter.js";
+import { bulletTexts, dailyPath, getPrioritiesFrom } from "./daily.js";
+import {
+	addDays,
+	isoWeek,
+	isoWeekStart,
+	monthEnd,
+	monthName,
+	shortDate,
+	today,
+	weekdayName,
+} from "./dates.js";
+import { itemKey } from "./ledger.js";
+import { getMonthlyDir, getWeeklyDir, writeNote } from "./para.js";
+import { readSection } from "./sections.js";
+
+export type RollupKind = "week" | "month";
+
+export interface RollupPeriod {
+	kind: RollupKind;
+	/** "2026-W43" or "2026-10" */
+	id: string;
+	/** First and last day, inclusive */
+	start: string;
+	end: string;
+	title: string;
+}
+
+export interface DayDigest {
+	day: string;
+	completed: string[];
+	decisions: string[];
+	learned: string[];
+	/** Session summaries from the Log */
+	sessions: string[];
+}
+
+export function weekPeriod(week: string): RollupPeriod {
+	const start = isoWeekStart(week);
+	const end = addDays(start, 6);
+	return {
+		kind: "week",
+		id: week,
+		start,
+		end,
+		title: `Week ${Number(week.slice(6))}, ${week.slice(0, 4)} (${shortDate(start)} – ${shortDate(end)})`,
+	};
+}
+
+export function monthPeriod(month: string): RollupPeriod {
+	return { kind: "month", id: month, start: `${month}-01`, end: monthEnd(month), title: monthName(month) };
+}
+
+/** The week or month containing a day */
+export function periodOf(kind: RollupKind, day: string = today()): RollupPeriod {
+	return kind === "week" ? weekPeriod(isoWeek(day)) : monthPeriod(day.slice(0, 7));
+}
+
+/** The period just before this one */
+export function previousPeriod(period: RollupPeriod): RollupPeriod {
+	return periodOf(period.kind, addDays(period.start, -1));
+}
+
+/**
+ * Parse `/week` arguments: nothing for this week, `month` for this month,
+ * `last` for the previous one, or an explicit `YYYY-Www` / `YYYY-MM`.
+ */
+export function parsePeriod(args: string): RollupPeriod | undefined {
+	const tokens = args.trim().toLowerCase().split(/\s+/).filter(Boolean);
+	let period = periodOf(tokens.includes("month") ? "month" : "week");
+	for (const token of tokens) {
+		if (/^\d{4}-w\d{2}$/.test(token)) period = weekPeriod(token.toUpperCase());
+		else if (/^\d{4}-\d{2}$/.test(token)) period = monthPeriod(token);
+		else if (token !== "month" && token !== "last") return undefined;
+	}
+	return tokens.includes("last") ? previousPeriod(period) : period;
+}
+
+export function rollupPath(period: RollupPeriod): string {
+	return join(period.kind === "week" ? getWeeklyDir() : getMonthlyDir(), `${period.id}.md`);
+}
+
+/** What each existing daily note in the period recorded */
+export function collectDigests(period: RollupPeriod): DayDigest[] {
+	const digests: DayDigest[] = [];
+	for (let day = period.start; day <= period.end; day = addDays(day, 1)) {
+		const path = dailyPath(day);
+		if (!existsSync(path)) continue;
+
+		const content = readFileSync(path, "utf-8");
+		const sessions = bulletTexts(readSection(content, "Log") ?? "")
+			.map((entry) => entry.match(/Session summary:\s*(.+)$/)?.[1]?.trim())
+			.filter((s): s is string => Boolean(s));
+
+		digests.push({
+			day,
+			completed: getPrioritiesFrom(content)
+				.filter((p) => p.done)
+				.map((p) => p.text),
+			decisions: bulletTexts(readSection(content, "Decisions") ?? ""),
+			learned: bulletTexts(readSection(content, "Learned") ?? ""),
+			sessions,
+		});
+	}
+	return digests;
+}
+
+/** Items across days, each tagged with the first day it appeared */
+function dated(digests: DayDigest[], pick: (d: DayDigest) => string[]): string[] {
+	const seen = new Set<string>();
+	const lines: string[] = [];
+	for (const digest of digests) {
+		for (const item of pick(digest)) {
+			const key = itemKey(item);
+			if (!key || seen.has(key)) continue;
+			seen.add(key);
+			lines.push(`- ${item} *(${shortDate(digest.day)})*`);
+		}
+	}
+	return lines;
+}
+
+/** Render a rollup note. `notes` is carried over from a previous version. */
+export function buildRollup(period: RollupPeriod, digests: DayDigest[], narrative?: string, notes?: string): string {
+	const section = (name: string, lines: string[]) => `## ${name}\n${lines.length > 0 ? lines.join("\n") : "- none"}\n`;
+	const sessions = digests.flatMap((d) =>
+		d.sessions.map((s) => `- **[[${d.day}]]** ${weekdayName(d.day).slice(0, 3)} — ${s}`)
+	);
+
+	const body = [
+		`# ${period.title}\n`,
+		...(narrative?.trim() ? [`## Summary\n${narrative.trim()}\n`] : []),
+		section("Completed", dated(digests, (d) => d.completed)),
+		section("Decisions", dated(digests, (d) => d.decisions)),
+		section("Learned", dated(digests, (d) => d.learned)),
+		section("Sessions", sessions),
+		`## Notes\n${notes?.trim() ? notes.trim() + "\n" : ""}`,
+	].join("\n");
+
+	return buildNote(
+		{
+			type: period.kind === "week" ? "weekly" : "monthly",
+			period: period.id,
+			start: period.start,
+			end: period.end,
+			days: digests.length,
+			generated: today(),
+		},
+		body
+	);
+}
+
+/**
+ * Regenerate a period's rollup from its dailies. Without a new narrative the
+ * previous one is kept; the `## Notes` section is always kept.
+ */
+export function writeRollup(period: RollupPeriod, narrative?: string): string {
+	const path = rollupPath(period);
+	const previous = existsSync(path) ? readFileSync(path, "utf-8") : "";
+	const content = buildRollup(
+		period,
+		collectDigests(period),
+		narrative ?? readSection(previous, "Summary"),
+		readSection(previous, "Notes")
+	);
+	writeNote(path, content);
+	return path;
+}
+
+/** Write last week's and last month's rollups if they don't exist yet */
+export function ensurePastRollups(day: string = today()): string[] {
+	const written: string[] = [];
+	for (const kind of ["week", "month"] as const) {
+		const period = previousPeriod(periodOf(kind, day));
+		if (existsSync(rollupPath(period)) || collectDigests(period).length === 0) continue;
+		written.push(writeRollup(period));
+	}
+	return written;
+}
+
+/** Prompt for a short narrative of the period, built from its digests */
+export function buildNarrativePrompt(period: RollupPeriod, digests: DayDigest[]): string {
+	const days = digests
+		.map((d) =>
+			[
+				`### ${d.day} (${weekdayName(d.day)})`,
+				...d.sessions.map((s) => `Session: ${s}`),
+				...d.completed.map((c) => `Completed: ${c}`),
+				...d.decisions.map((c) => `Decision: ${c}`),
+				...d.learned.map((c) => `Learned: ${c}`),
+			].join("\n")
+		)
+		.join("\n\n");
+
+	return `Write a short narrative summary (one or two paragraphs, plain markdown, no headings) of this ${period.kind}: ${period.title}.
+Focus on what moved forward, key decisions and what was learned. Be concrete and don't invent anything that isn't in the notes.
+
+<daily_notes>
+${days}
+</daily_notes>`;
+}
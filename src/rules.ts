@@ -0,0 +1,212 @@
+/**
+ * Extraction Rules
+ *
+ * Light extraction is driven by a rule pack: for each category, a list of
+ * regex patterns plus length limits and the message roles they apply to.
+ * The built-in pack is used unless the vault has an `extraction-rules.json`,
+ * which users can edit to tune or translate the patterns.
+ *
+ * Lines inside code fences, block quotes and markdown tables are never
+ * matched, and tool output is not scanned at all.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { getBrainDir } from "./para.js";
+
+export const RULES_FILE = "extraction-rules.json";
+
+export const EXTRACTION_CATEGORIES = ["decisions", "solutions", "learnings", "todos", "commands"] as const;
+export type ExtractionCategory = (typeof EXTRACTION_CATEGORIES)[number];
+
+const RoleSchema = Type.Union([Type.Literal("user"), Type.Literal("assistant")]);
+
+const RuleSchema = Type.Object({
+	/** Regular expression source, matched against each line */
+	pattern: Type.String(),
+	/** RegExp flags (default "i"); g and y are rejected since rules are tested line by line */
+	flags: Type.Optional(Type.String()),
+	minLength: Type.Optional(Type.Number()),
+	maxLength: Type.Optional(Type.Number()),
+	/** Roles whose messages this rule scans (default: both) */
+	roles: Type.Optional(Type.Array(RoleSchema)),
+});
+
+const CategorySchema = Type.Object({
+	/** Max items kept per extraction (default 5) */
+	limit: Type.Optional(Type.Number()),
+	rules: Type.Array(RuleSchema),
+});
+
+export const RulePackSchema = Type.Object({
+	categories: Type.Partial(
+		Type.Object({
+			decisions: CategorySchema,
+			solutions: CategorySchema,
+			learnings: CategorySchema,
+			todos: CategorySchema,
+			commands: CategorySchema,
+		})
+	),
+});
+
+export type ExtractionRule = Static<typeof RuleSchema>;
+export type RulePack = Static<typeof RulePackSchema>;
+
+/** Built-in English rules, also written out as the starting point for a custom pack */
+export const DEFAULT_RULES: RulePack = {
+	categories: {
+		decisions: {
+			limit: 5,
+			rules: [
+				{
+					pattern: "\\b(decided|going with|let's (go with|use|do)|we('ll| will) (use|go))\\b",
+					minLength: 16,
+					maxLength: 299,
+				},
+			],
+		},
+		solutions: {
+			limit: 5,
+			rules: [
+				{
+					pattern: "\\b(fix(ed)?|solv(ed|e)|resolv(ed|e)|the (issue|problem|error) was|workaround)\\b",
+					minLength: 16,
+					maxLength: 299,
+				},
+			],
+		},
+		learnings: {
+			limit: 5,
+			rules: [
+				{
+					pattern: "\\b(turns out|TIL|learned|discovered|key (insight|takeaway))\\b",
+					minLength: 11,
+					maxLength: 299,
+				},
+			],
+		},
+		todos: {
+			limit: 5,
+			rules: [
+				{
+					pattern: "\\b(TODO|FIXME|remember to|don't forget( to)?|follow[- ]up on)\\b",
+					flags: "",
+					minLength: 11,
+					maxLength: 199,
+				},
+				{ pattern: "^\\s*[-*] \\[ \\] ", minLength: 11, maxLength: 199 },
+			],
+		},
+		commands: {
+			limit: 5,
+			rules: [
+				{
+					pattern: "^\\$?\\s*(npm |yarn |pnpm |brew |go |cargo |pip |terraform |aws |gcloud |kubectl |docker |git )",
+					flags: "",
+					maxLength: 199,
+					roles: ["assistant"],
+				},
+			],
+		},
+	},
+};
+
+export interface CompiledRule {
+	category: ExtractionCategory;
+	regex: RegExp;
+	minLength: number;
+	maxLength: number;
+	roles: Array<"user" | "assistant">;
+}
+
+export interface LoadedRules {
+	rules: CompiledRule[];
+	limits: Record<ExtractionCategory, number>;
+	/** File the rules came from; undefined for the built-in pack */
+	path?: string;
+	/** Problems found while loading; bad rules are skipped, not fatal */
+	errors: string[];
+}
+
+export function getRulesPath(): string {
+	return join(getBrainDir(), RULES_FILE);
+}
+
+/** Validate and compile a rule pack */
+export function compileRules(pack: unknown, path?: string): LoadedRules {
+	const limits = Object.fromEntries(EXTRACTION_CATEGORIES.map((c) => [c, 5])) as Record<ExtractionCategory, number>;
+	if (!Value.Check(RulePackSchema, pack)) {
+		const errors = [...Value.Errors(RulePackSchema, pack)].map((e) => `${e.path || "/"}: ${e.message}`);
+		return { rules: [], limits, path, errors };
+	}
+
+	const rules: CompiledRule[] = [];
+	const errors: string[] = [];
+
+	for (const category of EXTRACTION_CATEGORIES) {
+		const spec = pack.categories[category];
+		if (!spec) continue;
+		if (spec.limit !== undefined) limits[category] = spec.limit;
+
+		spec.rules.forEach((rule, i) => {
+			const flags = rule.flags ?? "i";
+			// Rules are tested line by line; g and y would carry lastIndex from one line to the next
+			const stateful = flags.replace(/[^gy]/g, "");
+			if (stateful) {
+				errors.push(`categories.${category}.rules[${i}]: flag(s) "${stateful}" not allowed, ignored`);
+			}
+			try {
+				rules.push({
+					category,
+					regex: new RegExp(rule.pattern, flags.replace(/[gy]/g, "")),
+					minLength: rule.minLength ?? 0,
+					maxLength: rule.maxLength ?? Infinity,
+					roles: rule.roles ?? ["user", "assistant"],
+				});
+			} catch (err) {
+				errors.push(`categories.${category}.rules[${i}]: ${(err as Error).message}`);
+			}
+		});
+	}
+
+	return { rules, limits, path, errors };
+}
+
+/** Rules for the active vault: its extraction-rules.json, else the built-in pack */
+export function loadRules(): LoadedRules {
+	const path = getRulesPath();
+	if (!existsSync(path)) return compileRules(DEFAULT_RULES);
+
+	try {
+		return compileRules(JSON.parse(readFileSync(path, "utf-8")), path);
+	} catch (err) {
+		const fallback = compileRules(DEFAULT_RULES);
+		return { ...fallback, errors: [`${path}: ${(err as Error).message} (using built-in rules)`] };
+	}
+}
+
+/**
+ * Lines of a message that are prose: drops code fences and their contents,
+ * block quotes, markdown table rows and HTML comments.
+ */
+export function proseLines(text: string): string[] {
+	const lines: string[] = [];
+	let inFence = false;
+
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (/^(```|~~~)/.test(trimmed)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence) continue;
+		if (trimmed.startsWith(">")) continue;
+		if (trimmed.startsWith("|") || /^:?-{3,}:?(\s*\|\s*:?-{3,}:?)+$/.test(trimmed)) continue;
+		if (trimmed.startsWith("<!--")) continue;
+		lines.push(line);
+	}
+	return lines;
+}
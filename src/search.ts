@@ -0,0 +1,405 @@
+/**
+ * Search
+ *
+ * qmd-backed search with a built-in fallback. Three modes map to qmd
+ * commands: keyword (`search`, BM25), semantic (`vsearch`, embeddings) and
+ * hybrid (`query`, both plus reranking). Semantic and hybrid fall back to
+ * keyword search when the collection has no embeddings. When qmd is missing
+ * or fails, queries go to a pure-TypeScript BM25 index over the PARA folders
+ * and daily/. Results can be filtered by category, project, tags and date
+ * (see filters.ts); the archive is left out unless asked for.
+ * The index is built lazily, updated when notes are written through writeNote(),
+ * and reconciled against file mtimes before each query.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { asString, asStringList, parseNote } from "./frontmatter.js";
+import { hasFilters, matchesFilters, type SearchFilters } from "./filters.js";
+import { categoryOf, getBrainDir, onNoteWritten, PARA_FOLDERS, walkMarkdown } from "./para.js";
+import type { SearchQuery } from "./query.js";
+import type { SearchResult } from "./ui.js";
+
+export const SEARCH_MODES = ["keyword", "semantic", "hybrid"] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/** qmd subcommand and timeout per mode; hybrid runs a reranking model, so it gets longer */
+const QMD_COMMANDS: Record<SearchMode, { command: string; timeout: number }> = {
+	keyword: { command: "search", timeout: 10000 },
+	semantic: { command: "vsearch", timeout: 30000 },
+	hybrid: { command: "query", timeout: 60000 },
+};
+
+export interface SearchOutcome {
+	results: SearchResult[];
+	/** What produced the results: a qmd mode, or "local" for the built-in index */
+	engine: SearchMode | "local";
+}
+
+// ─── qmd ───────────────────────────────────────────────────────────────
+
+/**
+ * Run a qmd search in the given mode. Returns null when qmd is unavailable,
+ * exits non-zero, or (for semantic and hybrid) reports missing embeddings.
+ */
+export async function qmdSearch(
+	pi: ExtensionAPI,
+	query: string,
+	maxResults = 5,
+	collection?: string,
+	mode: SearchMode = "keyword"
+): Promise<SearchResult[] | null> {
+	const { command, timeout } = QMD_COMMANDS[mode];
+	const args = [command, query, "-n", String(maxResults), "--json"];
+	if (collection) args.push("-c", collection);
+
+	let stdout: string;
+	try {
+		const result = await pi.exec("qmd", args, { timeout });
+		if (result.code !== 0) return null;
+		stdout = result.stdout;
+		if (mode !== "keyword" && !stdout.trim() && /embed/i.test(result.stderr)) return null;
+	} catch {
+		return null;
+	}
+	if (!stdout.trim()) return [];
+
+	try {
+		const parsed = JSON.parse(stdout);
+		const results: SearchResult[] = [];
+		const items = Array.isArray(parsed) ? parsed : parsed.results ?? [];
+		for (const item of items) {
+			results.push({
+				path: item.path ?? item.document ?? "",
+				title: item.title ?? "",
+				score: item.score != null ? `${Math.round(Number(item.score) * 100)}%` : "?",
+				snippet: item.snippet ?? item.text ?? item.content ?? "",
+			});
+		}
+		return results;
+	} catch {
+		// Fallback: parse text output
+		return parseTextSearchResults(stdout);
+	}
+}
+
+function parseTextSearchResults(output: string): SearchResult[] {
+	const results: SearchResult[] = [];
+	const blocks = output.split("\n\n");
+
+	for (const block of blocks) {
+		const lines = block.trim().split("\n");
+		if (lines.length === 0) continue;
+
+		const pathLine = lines[0] ?? "";
+		const pathMatch = pathLine.match(/^(qmd:\/\/[^\s]+)/);
+		if (!pathMatch) continue;
+
+		const titleLine = lines.find((l) => l.startsWith("Title:"));
+		const scoreLine = lines.find((l) => l.startsWith("Score:"));
+		const snippetLines = lines.filter(
+			(l) =>
+				!l.startsWith("Title:") &&
+				!l.startsWith("Score:") &&
+				!l.startsWith("Context:") &&
+				l !== pathLine &&
+				!l.startsWith("@@")
+		);
+
+		results.push({
+			path: pathMatch[1],
+			title: titleLine?.replace("Title:", "").trim() ?? "",
+			score: scoreLine?.replace("Score:", "").trim() ?? "?",
+			snippet: snippetLines.join("\n").trim(),
+		});
+	}
+
+	return results;
+}
+
+/** Vault-relative path as qmd may report it: lowercased, with runs of other characters as dashes */
+function qmdHandle(path: string): string {
+	return path
+		.toLowerCase()
+		.split(/[\\/]/)
+		.map((part) => part.replace(/[^\p{L}\p{N}.]+/gu, "-").replace(/^-+|-+(?=\.md$)|-+$/g, ""))
+		.join("/");
+}
+
+let handles: { root: string; paths: Map<string, string> } | undefined;
+
+onNoteWritten(() => (handles = undefined));
+
+/**
+ * Filesystem path of a search result. qmd reports `qmd://<collection>/<path>`
+ * relative to the vault root, sometimes with a `:line` suffix and with the
+ * path normalized; the built-in index already returns paths.
+ */
+export function resultPath(path: string): string {
+	const m = path.match(/^qmd:\/\/[^/]+\/(.+?)(?::\d+)?$/);
+	if (!m) return path;
+	const rel = decodeURIComponent(m[1]);
+	const direct = join(getBrainDir(), rel);
+	if (existsSync(direct)) return direct;
+
+	if (handles?.root !== getBrainDir()) {
+		const root = getBrainDir();
+		const paths = new Map<string, string>();
+		for (const file of walkMarkdown(root)) paths.set(qmdHandle(relative(root, file)), file);
+		handles = { root, paths };
+	}
+	return handles.paths.get(qmdHandle(rel)) ?? direct;
+}
+
+export async function qmdUpdate(pi: ExtensionAPI): Promise<void> {
+	await pi.exec("qmd", ["update"], { timeout: 30000 });
+}
+
+export interface SearchOptions {
+	maxResults?: number;
+	collection?: string;
+	mode?: SearchMode;
+	filters?: SearchFilters;
+}
+
+/** How many extra hits to fetch from qmd when results are filtered afterwards */
+const FILTER_OVERFETCH = 5;
+
+/**
+ * Search the active vault: qmd in the requested mode, keyword search if that
+ * mode isn't available (no embeddings), the built-in index if qmd isn't.
+ * A SearchQuery sends its keywords to keyword search and its natural text to
+ * semantic and hybrid search. Results are filtered (archive excluded unless
+ * asked for) and tagged with their category.
+ */
+export async function searchBrain(
+	pi: ExtensionAPI,
+	query: string | SearchQuery,
+	options: SearchOptions = {}
+): Promise<SearchOutcome> {
+	const { maxResults = 5, collection, mode = "keyword", filters = {} } = options;
+	const { keywords, natural } = typeof query === "string" ? { keywords: query, natural: query } : query;
+	const accept = (path: string) => matchesFilters(path, filters);
+	// qmd can't filter, so ask for more and filter here
+	const fetch = hasFilters(filters) ? Math.max(maxResults * FILTER_OVERFETCH, 50) : maxResults * 2;
+	const finish = (results: SearchResult[], engine: SearchOutcome["engine"]): SearchOutcome => ({
+		results: results
+			.map((r) => ({ ...r, path: resultPath(r.path) }))
+			.filter((r) => matchesFilters(r.path, filters))
+			.slice(0, maxResults)
+			.map((r) => ({ ...r, category: categoryOf(r.path) })),
+		engine,
+	});
+
+	// Filters alone (e.g. `tag:terraform in:resources`) list matching notes, newest first
+	if (!keywords.trim() && hasFilters(filters)) return finish(getLocalIndex().browse(maxResults, accept), "local");
+
+	if (mode !== "keyword") {
+		const results = await qmdSearch(pi, natural, fetch, collection, mode);
+		if (results !== null) return finish(results, mode);
+	}
+	const results = await qmdSearch(pi, keywords, fetch, collection);
+	if (results !== null) return finish(results, "keyword");
+	return finish(getLocalIndex().search(keywords, maxResults, accept), "local");
+}
+
+// ─── Built-in BM25 index ───────────────────────────────────────────────
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 3;
+
+const STOPWORDS = new Set(
+	(
+		"a an and are as at be but by for from has have how i if in into is it its of on or " +
+		"that the this to was we were what when where which who why will with you your"
+	).split(" ")
+);
+
+/** Lowercase, split on anything that isn't a letter or digit, drop stopwords */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+interface IndexedDoc {
+	path: string;
+	title: string;
+	mtimeMs: number;
+	length: number;
+	terms: Map<string, number>;
+	body: string;
+}
+
+export class SearchIndex {
+	private root: string;
+	private docs = new Map<string, IndexedDoc>();
+	private postings = new Map<string, Set<string>>();
+	private totalLength = 0;
+	private built = false;
+
+	constructor(root: string) {
+		this.root = root;
+	}
+
+	getRoot(): string {
+		return this.root;
+	}
+
+	/** Directories covered by the index */
+	private sourceDirs(): string[] {
+		return [
+			...Object.values(PARA_FOLDERS).map((folder) => join(this.root, folder)),
+			...["daily", "weekly", "monthly"].map((folder) => join(this.root, folder)),
+		];
+	}
+
+	/** Whether a path belongs to the indexed part of the vault */
+	covers(path: string): boolean {
+		if (!path.endsWith(".md")) return false;
+		return this.sourceDirs().some((dir) => path.startsWith(dir + sep));
+	}
+
+	/** (Re)index a single note, or drop it if it no longer exists */
+	update(path: string): void {
+		if (!this.built || !this.covers(path)) return;
+		if (!existsSync(path)) {
+			this.remove(path);
+			return;
+		}
+		this.add(path, statSync(path).mtimeMs);
+	}
+
+	/** Reconcile the index with the filesystem using mtimes */
+	refresh(): void {
+		const seen = new Set<string>();
+		for (const dir of this.sourceDirs()) {
+			for (const path of walkMarkdown(dir)) {
+				seen.add(path);
+				const mtimeMs = statSync(path).mtimeMs;
+				if (this.docs.get(path)?.mtimeMs !== mtimeMs) this.add(path, mtimeMs);
+			}
+		}
+		for (const path of [...this.docs.keys()]) {
+			if (!seen.has(path)) this.remove(path);
+		}
+		this.built = true;
+	}
+
+	/** Top hits for a query; `accept` drops notes before ranking is cut off */
+	search(query: string, maxResults = 5, accept?: (path: string) => boolean): SearchResult[] {
+		this.refresh();
+
+		const queryTerms = [...new Set(tokenize(query))];
+		const n = this.docs.size;
+		if (queryTerms.length === 0 || n === 0) return [];
+
+		const avgLength = this.totalLength / n;
+		const scores = new Map<string, number>();
+
+		for (const term of queryTerms) {
+			const posting = this.postings.get(term);
+			if (!posting) continue;
+			const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+			for (const path of posting) {
+				const doc = this.docs.get(path)!;
+				const tf = doc.terms.get(term) ?? 0;
+				const norm = tf + K1 * (1 - B + (B * doc.length) / avgLength);
+				scores.set(path, (scores.get(path) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+			}
+		}
+
+		const ranked = [...scores.entries()]
+			.filter(([path]) => !accept || accept(path))
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, maxResults);
+		const top = ranked[0]?.[1] ?? 1;
+
+		return ranked.map(([path, score]) => {
+			const doc = this.docs.get(path)!;
+			return {
+				path,
+				title: doc.title,
+				score: `${Math.round((score / top) * 100)}%`,
+				snippet: buildSnippet(doc.body, queryTerms),
+			};
+		});
+	}
+
+	/** Most recently modified notes, without a query */
+	browse(maxResults = 5, accept?: (path: string) => boolean): SearchResult[] {
+		this.refresh();
+		return [...this.docs.values()]
+			.filter((doc) => !accept || accept(doc.path))
+			.sort((a, b) => b.mtimeMs - a.mtimeMs)
+			.slice(0, maxResults)
+			.map((doc) => ({ path: doc.path, title: doc.title, score: "—", snippet: buildSnippet(doc.body, []) }));
+	}
+
+	private add(path: string, mtimeMs: number): void {
+		this.remove(path);
+
+		const { data, body } = parseNote(readFileSync(path, "utf-8"));
+		const title =
+			asString(data.title) ||
+			body.match(/^#\s+(.+)$/m)?.[1]?.trim() ||
+			relative(this.root, path).replace(/\.md$/, "");
+
+		const terms = new Map<string, number>();
+		const bodyTokens = tokenize(body);
+		for (const t of bodyTokens) terms.set(t, (terms.get(t) ?? 0) + 1);
+		// Title and tags count extra, the way a heading would for a reader
+		const titleTokens = tokenize([title, ...asStringList(data.tags)].join(" "));
+		for (const t of titleTokens) terms.set(t, (terms.get(t) ?? 0) + TITLE_WEIGHT);
+
+		const length = bodyTokens.length + TITLE_WEIGHT * titleTokens.length;
+		this.docs.set(path, { path, title, mtimeMs, length, terms, body });
+		this.totalLength += length;
+		for (const term of terms.keys()) {
+			let posting = this.postings.get(term);
+			if (!posting) {
+				posting = new Set();
+				this.postings.set(term, posting);
+			}
+			posting.add(path);
+		}
+	}
+
+	private remove(path: string): void {
+		const doc = this.docs.get(path);
+		if (!doc) return;
+		for (const term of doc.terms.keys()) {
+			const posting = this.postings.get(term);
+			posting?.delete(path);
+			if (posting?.size === 0) this.postings.delete(term);
+		}
+		this.totalLength -= doc.length;
+		this.docs.delete(path);
+	}
+}
+
+/** First line mentioning a query term, plus the line after it */
+function buildSnippet(body: string, queryTerms: string[]): string {
+	const lines = body.split("\n").filter((l) => l.trim() && !l.startsWith("<!--"));
+	const idx = lines.findIndex((l) => tokenize(l).some((t) => queryTerms.includes(t)));
+	const start = Math.max(0, idx);
+	return lines
+		.slice(start, start + 2)
+		.join("\n")
+		.slice(0, 300);
+}
+
+let localIndex: SearchIndex | undefined;
+
+/** The built-in index for the active vault (rebuilt when the vault changes) */
+export function getLocalIndex(): SearchIndex {
+	if (!localIndex || localIndex.getRoot() !== getBrainDir()) {
+		localIndex = new SearchIndex(getBrainDir());
+	}
+	return localIndex;
+}
+
+onNoteWritten((path) => localIndex?.update(path));
@@ -0,0 +1,202 @@
+/**
+ * Markdown Sections
+ *
+ * Treats a note body as a list of `#`-headed sections so content can be read,
+ * appended or replaced section by section without touching the rest of the
+ * note. Frontmatter is left alone; HTML comments and blank lines are kept.
+ */
+
+import { parseNote, serializeNote } from "./frontmatter.js";
+
+export interface SectionRange {
+	heading: string;
+	level: number;
+	/** Index of the heading line */
+	start: number;
+	/** Index one past the last line of the section */
+	end: number;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+function headingOf(line: string): { level: number; text: string } | undefined {
+	const m = line.match(HEADING_RE);
+	return m ? { level: m[1].length, text: m[2] } : undefined;
+}
+
+/** Locate a section by heading text (case-insensitive, any level unless given) */
+export function findSection(lines: string[], name: string, level?: number): SectionRange | undefined {
+	const wanted = name.replace(/^#+\s*/, "").trim().toLowerCase();
+	let inFence = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+		if (inFence) continue;
+		const h = headingOf(lines[i]);
+		if (!h || h.text.toLowerCase() !== wanted || (level !== undefined && h.level !== level)) continue;
+
+		let end = lines.length;
+		let fence = false;
+		for (let j = i + 1; j < lines.length; j++) {
+			if (/^\s*(```|~~~)/.test(lines[j])) fence = !fence;
+			if (fence) continue;
+			const next = headingOf(lines[j]);
+			if (next && next.level <= h.level) {
+				end = j;
+				break;
+			}
+		}
+		return { heading: h.text, level: h.level, start: i, end };
+	}
+	return undefined;
+}
+
+/** Index of the last non-blank line in a section, or its heading if empty */
+function lastContentLine(lines: string[], range: SectionRange): number {
+	for (let i = range.end - 1; i > range.start; i--) {
+		if (lines[i].trim() !== "") return i;
+	}
+	return range.start;
+}
+
+/** Text under a section heading, without the heading itself */
+export function readSection(content: string, name: string): string | undefined {
+	const lines = content.split("\n");
+	const range = findSection(lines, name);
+	if (!range) return undefined;
+	return lines
+		.slice(range.start + 1, range.end)
+		.join("\n")
+		.trim();
+}
+
+/** Names of all sections, in document order */
+export function listSections(content: string): string[] {
+	const names: string[] = [];
+	let inFence = false;
+	for (const line of content.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+		if (inFence) continue;
+		const h = headingOf(line);
+		if (h && h.level > 1) names.push(h.text);
+	}
+	return names;
+}
+
+export type InsertPosition = "append" | "prepend";
+
+export interface SectionOptions {
+	/**
+	 * Canonical section order (e.g. from a template). A missing section is
+	 * created before the first section that follows it in this order, or at
+	 * the end of the note when none does.
+	 */
+	order?: string[];
+	/** Heading level for a created section (default 2) */
+	level?: number;
+}
+
+/** Where a missing section belongs: before the next existing section in `order` */
+function creationPoint(lines: string[], name: string, order: string[]): number {
+	const idx = order.findIndex((o) => o.toLowerCase() === name.toLowerCase());
+	if (idx === -1) return lines.length;
+	for (const later of order.slice(idx + 1)) {
+		const range = findSection(lines, later);
+		if (range) return range.start;
+	}
+	return lines.length;
+}
+
+/** Make sure a section exists, creating it in template order (or at the end) */
+export function ensureSection(content: string, name: string, options: SectionOptions = {}): string {
+	const { body, ...rest } = parseNote(content);
+	const lines = body.split("\n");
+	if (findSection(lines, name)) return content;
+
+	const heading = `${"#".repeat(options.level ?? 2)} ${name}`;
+	const at = creationPoint(lines, name, options.order ?? []);
+
+	if (at === lines.length) {
+		while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+		lines.push("", heading, "");
+	} else {
+		const before = at > 0 && lines[at - 1].trim() !== "" ? [""] : [];
+		lines.splice(at, 0, ...before, heading, "");
+	}
+	return serializeNote({ ...rest, body: lines.join("\n") });
+}
+
+/** Index after the heading and any leading blank lines or HTML comments */
+function firstContentLine(lines: string[], range: SectionRange): number {
+	let inComment = false;
+	for (let i = range.start + 1; i < range.end; i++) {
+		const line = lines[i].trim();
+		if (inComment) {
+			if (line.includes("-->")) inComment = false;
+			continue;
+		}
+		if (line.startsWith("<!--")) {
+			inComment = !line.includes("-->");
+			continue;
+		}
+		if (line !== "") return i;
+	}
+	return -1;
+}
+
+/**
+ * Insert text into a section, creating the section if missing.
+ * `append` goes after the section's last non-blank line, so the blank line
+ * before the next heading is kept; `prepend` goes before the first item,
+ * below any HTML comment hints under the heading.
+ */
+export function insertIntoSection(
+	content: string,
+	name: string,
+	text: string,
+	position: InsertPosition = "append",
+	options: SectionOptions = {}
+): string {
+	const note = parseNote(ensureSection(content, name, options));
+	const lines = note.body.split("\n");
+	const range = findSection(lines, name)!;
+
+	const first = position === "prepend" ? firstContentLine(lines, range) : -1;
+	const at = first >= 0 ? first : lastContentLine(lines, range) + 1;
+	lines.splice(at, 0, ...text.split("\n"));
+	return serializeNote({ ...note, body: lines.join("\n") });
+}
+
+/** Insert text at the end of a section. Creates the section if missing. */
+export function appendToSectionContent(content: string, name: string, text: string, options?: SectionOptions): string {
+	return insertIntoSection(content, name, text, "append", options);
+}
+
+/**
+ * Replace everything under a section heading. Creates the section if missing.
+ * With `keepComments`, HTML comment hints directly under the heading survive.
+ */
+export function replaceSectionContent(
+	content: string,
+	name: string,
+	text: string,
+	options: SectionOptions & { keepComments?: boolean } = {}
+): string {
+	const note = parseNote(ensureSection(content, name, options));
+	const lines = note.body.split("\n");
+	const range = findSection(lines, name)!;
+	const isLast = range.end === lines.length;
+
+	const kept: string[] = [];
+	if (options.keepComments) {
+		const first = firstContentLine(lines, range);
+		const hintsEnd = first >= 0 ? first : range.end;
+		kept.push(...lines.slice(range.start + 1, hintsEnd).filter((l) => l.trim() !== ""));
+	}
+
+	const replacement = text.trim() === "" ? [] : text.replace(/\n+$/, "").split("\n");
+	lines.splice(range.start + 1, range.end - range.start - 1, ...kept, ...replacement, ...(isLast ? [] : [""]));
+	let body = lines.join("\n");
+	if (isLast && !body.endsWith("\n")) body += "\n";
+	return serializeNote({ ...note, body });
+}
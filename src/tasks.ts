@@ -0,0 +1,301 @@
+/**
+ * Tasks
+ *
+ * Indexes every `- [ ]` checklist item across the vault — daily priorities,
+ * project checklists, inbox captures — into one task list. Items can carry
+ * optional metadata inline:
+ *
+ *   - [ ] Renew TLS certs due:2026-11-01 !high +infra #ops
+ *
+ * `due:YYYY-MM-DD` (or `📅 YYYY-MM-DD`) sets a due date, `!high|!medium|!low`
+ * a priority, `+project` a project (otherwise the note's project), and
+ * `#tag` tags. Open items in older daily notes' Priorities are skipped,
+ * since rollover has already copied them into the latest note.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { relative } from "node:path";
+import { addDays, daysBetween, today } from "./dates.js";
+import { asString, parseNote } from "./frontmatter.js";
+import {
+	getBrainDir,
+	onNoteWritten,
+	slugify,
+	vaultFiles,
+	vaultSignature,
+	writeNote,
+	type VaultFile,
+} from "./para.js";
+
+export type TaskPriority = "high" | "medium" | "low";
+
+export interface Task {
+	/** Stable id: hash of note path and task text */
+	id: string;
+	/** Task text with inline metadata removed */
+	text: string;
+	done: boolean;
+	due?: string;
+	priority?: TaskPriority;
+	project?: string;
+	tags: string[];
+	path: string;
+	/** 1-based line number */
+	line: number;
+	/** The line as it was read, used to find the task again before editing */
+	raw: string;
+	/** Title of the note holding the task */
+	note: string;
+	category: VaultFile["category"];
+}
+
+const CHECKBOX_RE = /^(\s*[-*+]\s+)\[([ xX])\]\s+(.*)$/;
+// Written by older deep extractions as a plain bullet
+const LEGACY_TODO_RE = /^(\s*[-*+]\s+)\*\*TODO:\*\*\s+(.*)$/;
+
+const DUE_RE = /(?:^|\s)(?:due:|📅\s*)(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const PRIORITY_RE = /(?:^|\s)!(high|medium|med|low)(?=\s|$)/i;
+const PROJECT_RE = /(?:^|\s)\+([\p{L}\p{N}][\p{L}\p{N}_/-]*)/u;
+const TAG_RE = /(?:^|\s)#([\p{L}\p{N}][\p{L}\p{N}_/-]*)/gu;
+const SINCE_RE = /\s*\*\(since \d{4}-\d{2}-\d{2}\)\*/;
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+function taskId(path: string, text: string): string {
+	return createHash("sha1").update(`${relative(getBrainDir(), path)}\n${text}`).digest("hex").slice(0, 8);
+}
+
+/** Parse one line into a task, or undefined if it isn't a non-empty checklist item */
+export function parseTaskLine(
+	line: string,
+	context: { path: string; line: number; note: string; category: Task["category"]; project?: string }
+): Task | undefined {
+	const checkbox = line.match(CHECKBOX_RE);
+	const legacy = checkbox ? undefined : line.match(LEGACY_TODO_RE);
+	if (!checkbox && !legacy) return undefined;
+
+	const body = checkbox ? checkbox[3] : legacy![2];
+	const due = body.match(DUE_RE)?.[1];
+	const priority = body.match(PRIORITY_RE)?.[1].toLowerCase();
+	const project = body.match(PROJECT_RE)?.[1];
+	const tags = [...body.matchAll(TAG_RE)].map((m) => m[1]);
+
+	const text = body
+		.replace(/^\*\*TODO:\*\*\s+/, "")
+		.replace(SINCE_RE, "")
+		.replace(new RegExp(DUE_RE.source, "g"), "")
+		.replace(new RegExp(PRIORITY_RE.source, "gi"), "")
+		.replace(new RegExp(PROJECT_RE.source, "gu"), "")
+		.replace(TAG_RE, "")
+		.replace(/\s+/g, " ")
+		.trim();
+	if (!text) return undefined;
+
+	return {
+		id: "",
+		text,
+		done: checkbox ? checkbox[2] !== " " : false,
+		...(due ? { due } : {}),
+		...(priority ? { priority: (priority === "med" ? "medium" : priority) as TaskPriority } : {}),
+		...(project ?? context.project ? { project: project ?? context.project } : {}),
+		tags,
+		path: context.path,
+		line: context.line,
+		raw: line,
+		note: context.note,
+		category: context.category,
+	};
+}
+
+/**
+ * All tasks in one note. `skipOpenPriorities` drops open items in the
+ * Priorities section (older daily notes carried them forward); finished ones stay.
+ */
+export function parseTasks(content: string, file: VaultFile, skipOpenPriorities = false): Task[] {
+	const { data, body } = parseNote(content);
+	const note = asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1]?.trim() || file.name;
+	// A project note's own checklist belongs to that project
+	const project = asString(data.project) || (file.category === "projects" ? slugify(note) : undefined);
+
+	const tasks: Task[] = [];
+	const seen = new Map<string, number>();
+	let inFence = false;
+	let inPriorities = false;
+	const lines = content.split("\n");
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence) continue;
+
+		const heading = line.match(/^#{1,6}\s+(.+?)\s*$/);
+		if (heading) {
+			inPriorities = heading[1].toLowerCase() === "priorities";
+			continue;
+		}
+		const task = parseTaskLine(line, { path: file.path, line: i + 1, note, category: file.category, project });
+		if (!task) continue;
+		if (skipOpenPriorities && inPriorities && !task.done) continue;
+
+		// Identical items in one note get distinct ids
+		const base = taskId(file.path, task.text);
+		const count = (seen.get(base) ?? 0) + 1;
+		seen.set(base, count);
+		task.id = count > 1 ? `${base}-${count}` : base;
+		tasks.push(task);
+	}
+	return tasks;
+}
+
+/** Scan the active vault for tasks. Archived notes are left out. */
+export function buildTaskIndex(): Task[] {
+	const files = vaultFiles().filter((f) => f.category !== "archive");
+	const latestDaily = files
+		.filter((f) => f.category === "daily" && /^\d{4}-\d{2}-\d{2}$/.test(f.name) && f.name <= today())
+		.map((f) => f.name)
+		.sort()
+		.pop();
+
+	const tasks: Task[] = [];
+	for (const file of files) {
+		const olderDaily = file.category === "daily" && latestDaily !== undefined && file.name < latestDaily;
+		tasks.push(...parseTasks(readFileSync(file.path, "utf-8"), file, olderDaily));
+	}
+	return tasks;
+}
+
+let cachedTasks: Task[] | undefined;
+let cachedSignature: string | undefined;
+
+/** The task index for the active vault, rebuilt only when notes changed */
+export function getTasks(): Task[] {
+	const signature = `${vaultSignature()}\n${today()}`;
+	if (!cachedTasks || signature !== cachedSignature) {
+		cachedTasks = buildTaskIndex();
+		cachedSignature = signature;
+	}
+	return cachedTasks;
+}
+
+onNoteWritten(() => {
+	cachedTasks = undefined;
+});
+
+// ─── Filtering ─────────────────────────────────────────────────────────
+
+export type TaskView = "open" | "overdue" | "today" | "week" | "done" | "all";
+
+export const TASK_VIEWS: TaskView[] = ["open", "overdue", "today", "week", "done", "all"];
+
+export interface TaskFilter {
+	view?: TaskView;
+	project?: string;
+	tag?: string;
+	/** Case-insensitive text match */
+	query?: string;
+}
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+export function dueStatus(task: Task, day: string = today()): DueStatus | undefined {
+	if (!task.due || task.done) return undefined;
+	if (task.due < day) return "overdue";
+	return task.due === day ? "today" : "upcoming";
+}
+
+/** Days until a task is due (negative when overdue) */
+export function daysUntilDue(task: Task, day: string = today()): number | undefined {
+	return task.due ? daysBetween(day, task.due) : undefined;
+}
+
+/** Parse `/tasks` arguments: a view name, `+project`, `#tag`, anything else is text */
+export function parseTaskFilter(args: string): TaskFilter {
+	const filter: TaskFilter = {};
+	const words: string[] = [];
+	for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+		if ((TASK_VIEWS as string[]).includes(token)) filter.view = token as TaskView;
+		else if (token.startsWith("+") && token.length > 1) filter.project = token.slice(1);
+		else if (token.startsWith("#") && token.length > 1) filter.tag = token.slice(1);
+		else words.push(token);
+	}
+	if (words.length > 0) filter.query = words.join(" ");
+	return filter;
+}
+
+/** Apply a filter and sort: overdue first, then by due date, priority and note */
+export function filterTasks(tasks: Task[], filter: TaskFilter = {}, day: string = today()): Task[] {
+	const view = filter.view ?? "open";
+	const weekEnd = addDays(day, 7);
+	const project = filter.project ? slugify(filter.project) : undefined;
+	const query = filter.query?.toLowerCase();
+
+	return tasks
+		.filter((t) => {
+			switch (view) {
+				case "open":
+					if (t.done) return false;
+					break;
+				case "overdue":
+					if (dueStatus(t, day) !== "overdue") return false;
+					break;
+				case "today":
+					if (t.done || !t.due || t.due > day) return false;
+					break;
+				case "week":
+					if (t.done || !t.due || t.due > weekEnd) return false;
+					break;
+				case "done":
+					if (!t.done) return false;
+					break;
+			}
+			if (project && (!t.project || slugify(t.project) !== project)) return false;
+			if (filter.tag && !t.tags.some((tag) => tag.toLowerCase() === filter.tag!.toLowerCase())) return false;
+			if (query && !`${t.text} ${t.note}`.toLowerCase().includes(query)) return false;
+			return true;
+		})
+		.sort((a, b) => {
+			if (a.done !== b.done) return a.done ? 1 : -1;
+			if (a.due !== b.due) return !a.due ? 1 : !b.due ? -1 : a.due.localeCompare(b.due);
+			const pa = a.priority ? PRIORITY_RANK[a.priority] : 3;
+			const pb = b.priority ? PRIORITY_RANK[b.priority] : 3;
+			if (pa !== pb) return pa - pb;
+			return a.note.localeCompare(b.note) || a.line - b.line;
+		});
+}
+
+/** Find a task by id (or unique id prefix) */
+export function findTask(tasks: Task[], id: string): Task | undefined {
+	const exact = tasks.find((t) => t.id === id);
+	if (exact) return exact;
+	const matches = tasks.filter((t) => t.id.startsWith(id));
+	return matches.length === 1 ? matches[0] : undefined;
+}
+
+// ─── Editing ───────────────────────────────────────────────────────────
+
+/**
+ * Check or uncheck a task in its note. The line is located by its original
+ * text, so edits elsewhere in the note don't matter; returns false if the
+ * task is gone or was changed on disk.
+ */
+export function setTaskDone(task: Task, done: boolean): boolean {
+	const lines = readFileSync(task.path, "utf-8").split("\n");
+	const index = lines[task.line - 1] === task.raw ? task.line - 1 : lines.indexOf(task.raw);
+	if (index < 0) return false;
+
+	const line = lines[index];
+	const checkbox = line.match(CHECKBOX_RE);
+	if (checkbox) {
+		lines[index] = `${checkbox[1]}[${done ? "x" : " "}] ${checkbox[3]}`;
+	} else {
+		const legacy = line.match(LEGACY_TODO_RE);
+		if (!legacy) return false;
+		lines[index] = `${legacy[1]}[${done ? "x" : " "}] **TODO:** ${legacy[2]}`;
+	}
+	writeNote(task.path, lines.join("\n"));
+	return true;
+}
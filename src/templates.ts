@@ -0,0 +1,194 @@
+/**
+ * Note Templates
+ *
+ * Renders notes from `templates/<kind>.md` in the vault (falling back to
+ * built-in copies of the templates setup writes). Placeholders:
+ *
+ *   {{TITLE}} {{DATE}} {{TIME}} {{DAY_NAME}} {{FULL_DATE}}
+ *   {{PROJECT}} {{CWD}} {{BRANCH}} {{CONTENT}}
+ *   {{prompt:Question}} / {{prompt:Question|default}}  — asked when creating interactively
+ *
+ * Text passed as content goes where {{CONTENT}} is; templates without it get
+ * the content in their first `##` section.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { clockTime, longDate, today, weekdayName } from "./dates.js";
+import { currentBranch, detectProject } from "./detect.js";
+import { buildNote, parseNote, serializeNote, type Frontmatter, type FrontmatterValue } from "./frontmatter.js";
+import { getTemplatesDir, type ParaCategory } from "./para.js";
+import { insertIntoSection, listSections } from "./sections.js";
+
+export type TemplateKind = "inbox" | "project" | "area" | "resource";
+
+/** Template used for notes created in each category */
+export const CATEGORY_TEMPLATES: Record<Exclude<ParaCategory, "archive">, TemplateKind> = {
+	inbox: "inbox",
+	projects: "project",
+	areas: "area",
+	resources: "resource",
+};
+
+/** Built-in templates, same as the ones setup writes into the vault */
+const BUILTIN_TEMPLATES: Partial<Record<TemplateKind, string>> = {
+	project: `---
+title: {{TITLE}}
+created: {{DATE}}
+status: active
+---
+# {{TITLE}}
+
+## Goal
+
+## Key Decisions
+
+## Progress
+
+## Open Questions
+
+## Related
+`,
+	area: `---
+title: {{TITLE}}
+created: {{DATE}}
+---
+# {{TITLE}}
+
+## Responsibilities
+
+## Standards & Practices
+
+## Key Knowledge
+
+## Related
+`,
+	resource: `---
+title: {{TITLE}}
+created: {{DATE}}
+tags: []
+---
+# {{TITLE}}
+
+## Summary
+
+## Key Points
+
+## Examples
+
+## References
+
+## Related
+`,
+};
+
+export interface TemplateVars {
+	title: string;
+	date: string;
+	time: string;
+	project?: string;
+	cwd?: string;
+	branch?: string;
+	content?: string;
+}
+
+export interface TemplatePrompt {
+	/** The question, also the key for its answer */
+	name: string;
+	default?: string;
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([A-Z_]+|prompt:[^}|]+(?:\|[^}]*)?)\s*\}\}/g;
+
+/** The vault's template for a kind, else the built-in one (inbox has none) */
+export function loadTemplate(kind: TemplateKind): string | undefined {
+	const path = join(getTemplatesDir(), `${kind}.md`);
+	if (existsSync(path)) return readFileSync(path, "utf-8");
+	return BUILTIN_TEMPLATES[kind];
+}
+
+/** Built-in variables for a new note, from the clock and the working directory */
+export function templateVars(title: string, cwd?: string, extra: Partial<TemplateVars> = {}): TemplateVars {
+	return {
+		title,
+		date: today(),
+		time: clockTime(),
+		...(cwd ? { cwd, project: detectProject(cwd), branch: currentBranch(cwd) } : {}),
+		...extra,
+	};
+}
+
+/** `{{prompt:...}}` questions in a template, in order of first appearance */
+export function templatePrompts(template: string): TemplatePrompt[] {
+	const prompts = new Map<string, TemplatePrompt>();
+	for (const m of template.matchAll(PLACEHOLDER_RE)) {
+		if (!m[1].startsWith("prompt:")) continue;
+		const [name, fallback] = m[1].slice("prompt:".length).split("|");
+		const key = name.trim();
+		if (!prompts.has(key)) prompts.set(key, { name: key, ...(fallback !== undefined ? { default: fallback.trim() } : {}) });
+	}
+	return [...prompts.values()];
+}
+
+function renderString(text: string, vars: TemplateVars, answers: Record<string, string>): string {
+	const builtins: Record<string, string | undefined> = {
+		TITLE: vars.title,
+		DATE: vars.date,
+		TIME: vars.time,
+		DAY_NAME: weekdayName(vars.date),
+		FULL_DATE: longDate(vars.date),
+		PROJECT: vars.project,
+		CWD: vars.cwd,
+		BRANCH: vars.branch,
+		CONTENT: vars.content,
+	};
+	return text.replace(PLACEHOLDER_RE, (whole, key: string) => {
+		if (key.startsWith("prompt:")) {
+			const [name, fallback] = key.slice("prompt:".length).split("|");
+			return answers[name.trim()] ?? fallback?.trim() ?? "";
+		}
+		// Unknown placeholders are left for the user to see
+		return key in builtins ? (builtins[key] ?? "") : whole;
+	});
+}
+
+function renderValue(value: FrontmatterValue, vars: TemplateVars, answers: Record<string, string>): FrontmatterValue {
+	if (Array.isArray(value)) {
+		// A list item whose variable is unset (e.g. no project) is dropped rather than left empty
+		return value.map((v) => (typeof v === "string" ? renderString(v, vars, answers) : v)).filter((v) => v !== "");
+	}
+	return typeof value === "string" ? renderString(value, vars, answers) : value;
+}
+
+/**
+ * Render a template. Frontmatter is filled in value by value, so titles with
+ * colons or quotes still produce valid YAML.
+ */
+export function renderTemplate(template: string, vars: TemplateVars, answers: Record<string, string> = {}): string {
+	const note = parseNote(template);
+	const data: Frontmatter = {};
+	for (const [key, value] of Object.entries(note.data)) data[key] = renderValue(value, vars, answers);
+
+	let body = renderString(note.body, vars, answers);
+	const content = vars.content?.trim();
+	if (content && !/\{\{\s*CONTENT\s*\}\}/.test(note.body)) {
+		const first = listSections(body)[0];
+		body = first ? insertIntoSection(body, first, content, "append") : `${body.replace(/\n*$/, "")}\n\n${content}\n`;
+	}
+
+	return serializeNote({ ...note, data, body });
+}
+
+/** Render a new note for a category through its template, or as a plain note if there is none */
+export function renderNote(
+	category: Exclude<ParaCategory, "archive">,
+	vars: TemplateVars,
+	answers: Record<string, string> = {}
+): string {
+	const template = loadTemplate(CATEGORY_TEMPLATES[category]);
+	if (template) return renderTemplate(template, vars, answers);
+	return buildNote(
+		{ title: vars.title, created: vars.date },
+		`# ${vars.title}\n\n${vars.content ? `${vars.content.trim()}\n` : ""}`
+	);
+}
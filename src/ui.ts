@@ -1,48 +1,106 @@
 /**
  * TUI Components for Second Brain
  *
- * Dashboard, search, review wizard, and custom renderers.
+ * Dashboard, search, note viewer, task list, review wizard, and custom renderers.
  */
 
+import { basename, relative } from "node:path";
 import type { Theme } from "@mariozechner/pi-coding-agent";
-import { DynamicBorder } from "@mariozechner/pi-coding-agent";
-import { Container, matchesKey, Key, Text, truncateToWidth } from "@mariozechner/pi-tui";
-import type { ParaCategory, NoteInfo } from "./para.js";
-import { PARA_ICONS, getCounts, listNotes } from "./para.js";
+import { DynamicBorder, getMarkdownTheme } from "@mariozechner/pi-coding-agent";
+import { Container, Markdown, matchesKey, Key, Text, truncateToWidth } from "@mariozechner/pi-tui";
+import { asString, parseNote } from "./frontmatter.js";
+import type { NoteCategory, ParaCategory, NoteInfo } from "./para.js";
+import { PARA_ICONS, getBrainDir, getCounts, listNotes } from "./para.js";
+import { getNeighborhood, type LinkGraph, type LinkNode } from "./links.js";
+import { shortDate, today } from "./dates.js";
+import { carriedDays, type Priority } from "./daily.js";
+import { dueStatus, TASK_VIEWS, type Task, type TaskFilter } from "./tasks.js";
 
 // ─── Dashboard Component ───────────────────────────────────────────────
 
 export interface DashboardData {
 	counts: Record<ParaCategory, number>;
-	priorities: Array<{ text: string; done: boolean }>;
+	priorities: Priority[];
 	recentNotes: NoteInfo[];
 	totalNotes: number;
 	dailyCount: number;
+	graph: LinkGraph;
 }
 
 export class DashboardComponent {
 	private data: DashboardData;
 	private theme: Theme;
+	private onOpen: (path: string) => void;
 	private onClose: () => void;
 	private selectedSection = 0;
-	private sections = ["overview", "projects", "areas", "resources", "inbox"];
+	private sections = ["overview", "projects", "areas", "resources", "inbox", "graph"];
+	private graphNodes: LinkNode[];
+	private selectedNode = 0;
+	/** Notes listed in each category tab, read when the tab is first shown */
+	private categoryNotes = new Map<ParaCategory, NoteInfo[]>();
+	private selectedNote = 0;
 	private cachedWidth?: number;
 	private cachedLines?: string[];
 
-	constructor(data: DashboardData, theme: Theme, onClose: () => void) {
+	constructor(data: DashboardData, theme: Theme, onOpen: (path: string) => void, onClose: () => void) {
 		this.data = data;
 		this.theme = theme;
+		this.onOpen = onOpen;
 		this.onClose = onClose;
+
+		// Most connected notes first; daily notes only if something links to them
+		const degree = (n: LinkNode) =>
+			(data.graph.outbound.get(n.path)?.length ?? 0) + (data.graph.inbound.get(n.path)?.length ?? 0);
+		this.graphNodes = [...data.graph.nodes.values()]
+			.filter((n) => n.category !== "daily" || (data.graph.inbound.get(n.path)?.length ?? 0) > 0)
+			.sort((a, b) => degree(b) - degree(a) || a.title.localeCompare(b.title));
+	}
+
+	/** Notes in a category tab (cached for the dashboard's lifetime) */
+	private notesIn(category: ParaCategory): NoteInfo[] {
+		let notes = this.categoryNotes.get(category);
+		if (!notes) {
+			notes = listNotes(category);
+			this.categoryNotes.set(category, notes);
+		}
+		return notes;
+	}
+
+	/** Paths selectable in the current tab, with the cursor into them */
+	private selectable(): { paths: string[]; index: number } | undefined {
+		const section = this.sections[this.selectedSection];
+		if (section === "graph") return { paths: this.graphNodes.map((n) => n.path), index: this.selectedNode };
+		if (section === "overview") return undefined;
+		return { paths: this.notesIn(section as ParaCategory).map((n) => n.path), index: this.selectedNote };
+	}
+
+	private moveCursor(delta: number): void {
+		const list = this.selectable();
+		if (!list || list.paths.length === 0) return;
+		const index = Math.max(0, Math.min(list.paths.length - 1, list.index + delta));
+		if (this.sections[this.selectedSection] === "graph") this.selectedNode = index;
+		else this.selectedNote = index;
+		this.invalidate();
 	}
 
 	handleInput(data: string): void {
 		if (matchesKey(data, Key.escape) || matchesKey(data, "q")) {
 			this.onClose();
+		} else if (matchesKey(data, Key.up) || matchesKey(data, "k")) {
+			this.moveCursor(-1);
+		} else if (matchesKey(data, Key.down) || matchesKey(data, "j")) {
+			this.moveCursor(1);
+		} else if (matchesKey(data, Key.enter)) {
+			const list = this.selectable();
+			const path = list?.paths[list.index];
+			if (path) this.onOpen(path);
 		} else if (matchesKey(data, Key.left) || matchesKey(data, "h")) {
 			this.selectedSection = Math.max(0, this.selectedSection - 1);
+			this.selectedNote = 0;
 			this.invalidate();
 		} else if (matchesKey(data, Key.right) || matchesKey(data, "l")) {
 			this.selectedSection = Math.min(this.sections.length - 1, this.selectedSection + 1);
+			this.selectedNote = 0;
 			this.invalidate();
 		}
 	}
@@ -74,6 +132,8 @@ export class DashboardComponent {
 
 		if (section === "overview") {
 			this.renderOverview(lines, width, th);
+		} else if (section === "graph") {
+			this.renderGraph(lines, width, th);
 		} else {
 			this.renderCategoryDetail(lines, width, th, section as ParaCategory);
 		}
@@ -82,7 +142,13 @@ export class DashboardComponent {
 		lines.push("");
 		lines.push(
 			truncateToWidth(
-				"  " + th.fg("dim", "← → navigate sections • q/Esc close"),
+				"  " +
+					th.fg(
+						"dim",
+						section === "overview"
+							? "← → navigate sections • q/Esc close"
+							: "← → navigate sections • ↑↓ select note • Enter open • q/Esc close"
+					),
 				width
 			)
 		);
@@ -152,23 +218,87 @@ export class DashboardComponent {
 		lines.push(truncateToWidth(`  ${icon} ${th.fg("accent", th.bold(label))}`, width));
 		lines.push("");
 
-		const notes = listNotes(category);
+		const notes = this.notesIn(category);
 		if (notes.length === 0) {
 			lines.push(truncateToWidth(`    ${th.fg("dim", `No ${category} notes yet.`)}`, width));
-		} else {
-			for (const note of notes.slice(0, 15)) {
-				const age = this.timeAgo(note.modified);
-				lines.push(
-					truncateToWidth(
-						`    ${th.fg("muted", "•")} ${th.fg("text", note.title)} ${th.fg("dim", `(${age})`)}`,
-						width
-					)
-				);
-			}
-			if (notes.length > 15) {
-				lines.push(truncateToWidth(`    ${th.fg("dim", `... and ${notes.length - 15} more`)}`, width));
-			}
+			return;
 		}
+
+		// Scrolling window over the note list
+		const windowSize = 15;
+		const start = Math.max(0, Math.min(this.selectedNote - 7, notes.length - windowSize));
+		if (start > 0) lines.push(truncateToWidth(`    ${th.fg("dim", `↑ ${start} more`)}`, width));
+		for (let i = start; i < Math.min(start + windowSize, notes.length); i++) {
+			const note = notes[i];
+			const age = this.timeAgo(note.modified);
+			const pointer = i === this.selectedNote ? th.fg("accent", "▸ ") : `${th.fg("muted", "•")} `;
+			const title = i === this.selectedNote ? th.fg("accent", note.title) : th.fg("text", note.title);
+			const status = note.status ? ` ${th.fg(note.status === "active" ? "success" : "warning", `[${note.status}]`)}` : "";
+			const tags = note.tags.length > 0 ? ` ${th.fg("muted", note.tags.map((t) => `#${t}`).join(" "))}` : "";
+			lines.push(truncateToWidth(`    ${pointer}${title}${status}${tags} ${th.fg("dim", `(${age})`)}`, width));
+		}
+		const below = notes.length - start - windowSize;
+		if (below > 0) lines.push(truncateToWidth(`    ${th.fg("dim", `↓ ${below} more`)}`, width));
+	}
+
+	private renderGraph(lines: string[], width: number, th: Theme): void {
+		const graph = this.data.graph;
+		const linkCount = [...graph.outbound.values()].reduce((n, l) => n + l.length, 0);
+		lines.push(truncateToWidth(`  ${th.fg("accent", th.bold("🕸️ Link Graph"))}`, width));
+		lines.push(
+			truncateToWidth(
+				`  ${th.fg("dim", `${graph.nodes.size} notes • ${linkCount} links • `)}${th.fg(
+					graph.broken.length > 0 ? "warning" : "dim",
+					`${graph.broken.length} broken`
+				)}`,
+				width
+			)
+		);
+		lines.push("");
+
+		if (this.graphNodes.length === 0) {
+			lines.push(truncateToWidth(`    ${th.fg("dim", "No notes yet. Link notes with [[note-name]].")}`, width));
+			return;
+		}
+
+		// Scrolling window over the note list
+		const windowSize = 6;
+		const start = Math.max(0, Math.min(this.selectedNode - 2, this.graphNodes.length - windowSize));
+		for (let i = start; i < Math.min(start + windowSize, this.graphNodes.length); i++) {
+			const n = this.graphNodes[i];
+			const pointer = i === this.selectedNode ? th.fg("accent", "▸ ") : "  ";
+			const title = i === this.selectedNode ? th.fg("accent", n.title) : th.fg("text", n.title);
+			const out = graph.outbound.get(n.path)?.length ?? 0;
+			const inb = graph.inbound.get(n.path)?.length ?? 0;
+			lines.push(truncateToWidth(`  ${pointer}${title} ${th.fg("dim", `→${out} ←${inb}`)}`, width));
+		}
+		lines.push("");
+
+		const hood = getNeighborhood(graph, this.graphNodes[this.selectedNode].path);
+		if (!hood) return;
+
+		const icon = (n: LinkNode) => (n.category === "daily" ? "📅" : PARA_ICONS[n.category]);
+		lines.push(truncateToWidth(`  ${icon(hood.node)} ${th.fg("accent", th.bold(hood.node.title))}`, width));
+
+		const rows: string[] = [];
+		for (const { link, node } of hood.outbound) {
+			rows.push(
+				node
+					? `${th.fg("success", "→")} ${icon(node)} ${th.fg("text", node.title)}`
+					: `${th.fg("error", "✗")} ${th.fg("error", `[[${link.target}]]`)} ${th.fg("dim", `(broken, line ${link.line})`)}`
+			);
+		}
+		for (const { node } of hood.inbound) {
+			rows.push(`${th.fg("muted", "←")} ${icon(node)} ${th.fg("text", node.title)}`);
+		}
+
+		if (rows.length === 0) {
+			lines.push(truncateToWidth(`    ${th.fg("dim", "No links to or from this note.")}`, width));
+		}
+		rows.forEach((row, i) => {
+			const branch = i === rows.length - 1 ? "└─" : "├─";
+			lines.push(truncateToWidth(`    ${th.fg("borderMuted", branch)}${row}`, width));
+		});
 	}
 
 	private timeAgo(date: Date): string {
@@ -195,6 +325,12 @@ export interface SearchResult {
 	title: string;
 	score: string;
 	snippet: string;
+	/** Where the note lives in the vault, when known */
+	category?: NoteCategory;
+}
+
+function categoryIcon(category: NoteCategory): string {
+	return category in PARA_ICONS ? PARA_ICONS[category as ParaCategory] : "📅";
 }
 
 export class SearchResultsComponent {
@@ -210,10 +346,12 @@ export class SearchResultsComponent {
 		results: SearchResult[],
 		theme: Theme,
 		onSelect: (r: SearchResult) => void,
-		onClose: () => void
+		onClose: () => void,
+		selected = 0
 	) {
 		this.results = results;
 		this.theme = theme;
+		this.selected = Math.max(0, Math.min(selected, results.length - 1));
 		this.onSelect = onSelect;
 		this.onClose = onClose;
 	}
@@ -259,7 +397,8 @@ export class SearchResultsComponent {
 				const titleText =
 					i === this.selected ? th.fg("accent", r.title) : th.fg("text", r.title);
 				const score = th.fg("dim", `[${r.score}]`);
-				lines.push(truncateToWidth(`${prefix}${titleText} ${score}`, width));
+				const icon = r.category ? `${categoryIcon(r.category)} ` : "";
+				lines.push(truncateToWidth(`${prefix}${icon}${titleText} ${score}`, width));
 
 				const snippet = r.snippet.split("\n")[0] ?? "";
 				if (snippet.trim()) {
@@ -288,12 +427,158 @@ export class SearchResultsComponent {
 	}
 }
 
+// ─── Note Viewer Component ─────────────────────────────────────────────
+
+export type NoteAction = "edit" | "insert" | "copy" | "move" | "archive";
+
+const NOTE_ACTION_KEYS: Array<{ key: "e" | "i" | "c" | "m" | "a"; action: NoteAction; label: string }> = [
+	{ key: "e", action: "edit", label: "edit" },
+	{ key: "i", action: "insert", label: "insert" },
+	{ key: "c", action: "copy", label: "copy path" },
+	{ key: "m", action: "move", label: "move" },
+	{ key: "a", action: "archive", label: "archive" },
+];
+
+/** Terminal rows not available to the note body: the viewer's header and footer plus pi's status lines */
+const VIEWER_CHROME = 12;
+
+export class NoteViewerComponent {
+	private path: string;
+	private heading?: string;
+	private theme: Theme;
+	private viewportHeight: () => number;
+	private actions: NoteAction[];
+	private onAction: (action: NoteAction) => void;
+	private onClose: () => void;
+	private title = "";
+	private meta = "";
+	private markdown: Markdown;
+	private scroll = 0;
+	private bodyLines: string[] = [];
+	private cachedWidth?: number;
+	private cachedHeight?: number;
+	private cachedLines?: string[];
+
+	constructor(
+		path: string,
+		content: string,
+		theme: Theme,
+		viewportHeight: () => number,
+		onAction: (action: NoteAction) => void,
+		onClose: () => void,
+		options: { heading?: string; actions?: NoteAction[] } = {}
+	) {
+		this.path = path;
+		this.heading = options.heading;
+		this.theme = theme;
+		this.viewportHeight = viewportHeight;
+		this.actions = options.actions ?? NOTE_ACTION_KEYS.map((a) => a.action);
+		this.onAction = onAction;
+		this.onClose = onClose;
+		this.markdown = new Markdown("", 1, 0, getMarkdownTheme());
+		this.setContent(content);
+	}
+
+	/** Show new content for the note (e.g. after it was edited), keeping the scroll position */
+	setContent(content: string): void {
+		const { data, body } = parseNote(content);
+		this.title = asString(data.title) || body.match(/^#\s+(.+)$/m)?.[1] || basename(this.path, ".md");
+		// Frontmatter is summarized on one line; template comments are noise here
+		this.meta = Object.entries(data)
+			.filter(([key, value]) => key !== "title" && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0))
+			.map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`)
+			.join(" · ");
+		this.markdown.setText(body.replace(/<!--[\s\S]*?-->/g, "").replace(/\n{3,}/g, "\n\n").trim());
+		this.invalidate();
+	}
+
+	private get pageSize(): number {
+		return Math.max(5, this.viewportHeight() - VIEWER_CHROME);
+	}
+
+	private scrollTo(line: number): void {
+		this.scroll = Math.max(0, Math.min(line, this.bodyLines.length - this.pageSize));
+		this.invalidate();
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, Key.escape) || matchesKey(data, "q")) {
+			this.onClose();
+		} else if (matchesKey(data, Key.up) || matchesKey(data, "k")) {
+			this.scrollTo(this.scroll - 1);
+		} else if (matchesKey(data, Key.down) || matchesKey(data, "j")) {
+			this.scrollTo(this.scroll + 1);
+		} else if (matchesKey(data, Key.pageUp) || matchesKey(data, "b")) {
+			this.scrollTo(this.scroll - this.pageSize);
+		} else if (matchesKey(data, Key.pageDown) || matchesKey(data, Key.space)) {
+			this.scrollTo(this.scroll + this.pageSize);
+		} else if (matchesKey(data, Key.home) || matchesKey(data, "g")) {
+			this.scrollTo(0);
+		} else if (matchesKey(data, Key.end) || matchesKey(data, "shift+g")) {
+			this.scrollTo(this.bodyLines.length);
+		} else {
+			const action = NOTE_ACTION_KEYS.find((a) => matchesKey(data, a.key) && this.actions.includes(a.action));
+			if (action) this.onAction(action.action);
+		}
+	}
+
+	render(width: number): string[] {
+		const pageSize = this.pageSize;
+		if (this.cachedLines && this.cachedWidth === width && this.cachedHeight === pageSize) return this.cachedLines;
+
+		const th = this.theme;
+		const lines: string[] = [];
+
+		this.bodyLines = this.markdown.render(width);
+		this.scroll = Math.max(0, Math.min(this.scroll, this.bodyLines.length - pageSize));
+
+		lines.push("");
+		const title = th.fg("accent", th.bold(` ${this.heading ?? `📄 ${this.title}`} `));
+		lines.push(
+			truncateToWidth(
+				th.fg("borderAccent", "━".repeat(3)) + title + th.fg("borderAccent", "━".repeat(Math.max(0, width))),
+				width
+			)
+		);
+		lines.push(truncateToWidth(`  ${th.fg("dim", relative(getBrainDir(), this.path))}`, width));
+		lines.push(truncateToWidth(this.meta ? `  ${th.fg("muted", this.meta)}` : "", width));
+		lines.push("");
+
+		const visible = this.bodyLines.slice(this.scroll, this.scroll + pageSize);
+		lines.push(...visible.map((line) => truncateToWidth(line, width)));
+		// Pad short notes so the footer doesn't jump while scrolling
+		for (let i = visible.length; i < pageSize; i++) lines.push("");
+
+		lines.push("");
+		const end = Math.min(this.scroll + pageSize, this.bodyLines.length);
+		const position =
+			this.bodyLines.length > pageSize ? `${this.scroll + 1}-${end}/${this.bodyLines.length} • ` : "";
+		const actions = NOTE_ACTION_KEYS.filter((a) => this.actions.includes(a.action))
+			.map((a) => `${a.key} ${a.label}`)
+			.join(" • ");
+		lines.push(
+			truncateToWidth(
+				"  " + th.fg("dim", `${position}↑↓/PgUp/PgDn scroll • ${actions}${actions ? " • " : ""}Esc close`),
+				width
+			)
+		);
+		lines.push("");
+
+		this.cachedWidth = width;
+		this.cachedHeight = pageSize;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
 // ─── Priority Widget ───────────────────────────────────────────────────
 
-export function buildPriorityWidget(
-	priorities: Array<{ text: string; done: boolean }>,
-	theme: Theme
-): string[] {
+export function buildPriorityWidget(priorities: Priority[], theme: Theme, carryWarningDays: number): string[] {
 	if (priorities.length === 0) return [];
 
 	const lines: string[] = [];
@@ -303,16 +588,167 @@ export function buildPriorityWidget(
 	for (const p of priorities.slice(0, 3)) {
 		const check = p.done ? theme.fg("success", "☑") : theme.fg("muted", "☐");
 		const text = p.done ? theme.fg("dim", theme.strikethrough(p.text)) : theme.fg("text", p.text);
-		lines.push(`  ${check} ${text}`);
+		lines.push(`  ${check} ${text}${carryBadge(p, theme, carryWarningDays)}`);
 	}
 
 	if (priorities.length > 3) {
 		lines.push(theme.fg("dim", `  +${priorities.length - 3} more`));
 	}
 
+	const stale = priorities.filter((p) => !p.done && carriedDays(p) >= carryWarningDays).length;
+	if (stale > 0) {
+		lines.push(theme.fg("warning", `  ⏳ ${stale} carried ${carryWarningDays}+ days — /priorities to drop or move`));
+	}
+
 	return lines;
 }
 
+/** " ⏳ 4d" after an item that has been carried over, highlighted once it's stale */
+export function carryBadge(p: Priority, theme: Theme, carryWarningDays: number): string {
+	const days = carriedDays(p);
+	if (p.done || days === 0) return "";
+	return theme.fg(days >= carryWarningDays ? "warning" : "dim", ` ⏳ ${days}d`);
+}
+
+// ─── Task List Component ───────────────────────────────────────────────
+
+export class TaskListComponent {
+	private filter: TaskFilter;
+	private tasks: Task[] = [];
+	private theme: Theme;
+	private selected = 0;
+	private load: (filter: TaskFilter) => Task[];
+	private onToggle: (task: Task) => void;
+	private onClose: () => void;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(
+		filter: TaskFilter,
+		theme: Theme,
+		load: (filter: TaskFilter) => Task[],
+		onToggle: (task: Task) => void,
+		onClose: () => void
+	) {
+		this.filter = filter;
+		this.theme = theme;
+		this.load = load;
+		this.onToggle = onToggle;
+		this.onClose = onClose;
+		this.reload();
+	}
+
+	/** Re-read tasks for the current filter, keeping the cursor in range */
+	reload(): void {
+		this.tasks = this.load(this.filter);
+		this.selected = Math.min(this.selected, Math.max(0, this.tasks.length - 1));
+		this.invalidate();
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, Key.escape) || matchesKey(data, "q")) {
+			this.onClose();
+		} else if (matchesKey(data, Key.up) || matchesKey(data, "k")) {
+			this.selected = Math.max(0, this.selected - 1);
+			this.invalidate();
+		} else if (matchesKey(data, Key.down) || matchesKey(data, "j")) {
+			this.selected = Math.min(this.tasks.length - 1, this.selected + 1);
+			this.invalidate();
+		} else if (matchesKey(data, Key.tab)) {
+			const views = TASK_VIEWS;
+			this.filter = { ...this.filter, view: views[(views.indexOf(this.filter.view ?? "open") + 1) % views.length] };
+			this.selected = 0;
+			this.reload();
+		} else if (matchesKey(data, Key.space) || matchesKey(data, Key.enter)) {
+			const task = this.tasks[this.selected];
+			if (task) {
+				this.onToggle(task);
+				this.reload();
+			}
+		}
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) return this.cachedLines;
+
+		const th = this.theme;
+		const lines: string[] = [];
+
+		lines.push("");
+		const title = th.fg("accent", th.bold(" ✅ Tasks "));
+		lines.push(
+			truncateToWidth(
+				th.fg("borderAccent", "━".repeat(3)) + title + th.fg("borderAccent", "━".repeat(Math.max(0, width - 14))),
+				width
+			)
+		);
+		lines.push("");
+
+		const current = this.filter.view ?? "open";
+		const tabs = TASK_VIEWS.map((v) => (v === current ? th.fg("accent", th.bold(v)) : th.fg("dim", v))).join("  ");
+		const scope = [
+			this.filter.project ? `+${this.filter.project}` : "",
+			this.filter.tag ? `#${this.filter.tag}` : "",
+			this.filter.query ? `"${this.filter.query}"` : "",
+		]
+			.filter(Boolean)
+			.join(" ");
+		lines.push(truncateToWidth(`  ${tabs}${scope ? "  " + th.fg("muted", scope) : ""}`, width));
+		lines.push("");
+
+		if (this.tasks.length === 0) {
+			lines.push(truncateToWidth(`  ${th.fg("dim", "No tasks.")}`, width));
+		} else {
+			// Keep the cursor visible in long lists
+			const pageSize = 15;
+			const start = Math.max(0, Math.min(this.selected - 7, this.tasks.length - pageSize));
+			for (let i = start; i < this.tasks.length && i < start + pageSize; i++) {
+				const t = this.tasks[i];
+				const pointer = i === this.selected ? th.fg("accent", "▸ ") : "  ";
+				const check = t.done ? th.fg("success", "☑") : th.fg("muted", "☐");
+				const text = t.done ? th.fg("dim", th.strikethrough(t.text)) : th.fg("text", t.text);
+				lines.push(truncateToWidth(`${pointer}${check} ${text}${taskBadges(t, th)}`, width));
+			}
+			if (this.tasks.length > pageSize) {
+				lines.push(truncateToWidth(`  ${th.fg("dim", `${this.selected + 1}/${this.tasks.length}`)}`, width));
+			}
+
+			const t = this.tasks[this.selected];
+			if (t) {
+				lines.push("");
+				lines.push(truncateToWidth(`  ${th.fg("dim", `${t.note} — ${t.path}:${t.line}`)}`, width));
+			}
+		}
+
+		lines.push("");
+		lines.push(truncateToWidth("  " + th.fg("dim", "↑↓ navigate • Space/Enter toggle • Tab view • Esc close"), width));
+		lines.push("");
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
+/** Due date, priority and project markers shown after a task */
+export function taskBadges(task: Task, theme: Theme): string {
+	let badges = "";
+	const status = dueStatus(task);
+	if (task.due) {
+		const color = status === "overdue" ? "error" : status === "today" ? "warning" : "dim";
+		const label = status === "overdue" ? `overdue ${shortDate(task.due)}` : status === "today" ? "due today" : `due ${shortDate(task.due)}`;
+		badges += " " + theme.fg(color, `📅 ${label}`);
+	}
+	if (task.priority) badges += " " + theme.fg(task.priority === "high" ? "warning" : "muted", `!${task.priority}`);
+	if (task.project) badges += " " + theme.fg("accent", `+${task.project}`);
+	return badges;
+}
+
 // ─── Status Line Builder ───────────────────────────────────────────────
 
 export function buildStatusLine(
@@ -327,7 +763,7 @@ export function buildStatusLine(
 			? theme.fg("warning", ` 📥 ${inboxCount}`)
 			: "";
 	const sep = theme.fg("dim", "│");
-	const date = theme.fg("dim", new Date().toLocaleDateString("en-US", { month: "short", day: "numeric" }));
+	const date = theme.fg("dim", shortDate(today()));
 
 	return `${brain} ${notes}${inbox} ${sep} ${date}`;
 }